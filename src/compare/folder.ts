@@ -0,0 +1,160 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { ConfluenceClientConfig } from "../confluence/client.js";
+import { getPage, getPageMarkdown } from "../confluence/cache.js";
+import { createLinkResolver } from "../confluence/links.js";
+import { collectPageTree } from "../confluence/tree.js";
+import { parseFrontMatter } from "../export/frontmatter.js";
+import { stripTitleHeading } from "../export/tree.js";
+import { generateDiffStats } from "./diff.js";
+
+export type SyncStatus =
+  | "in-sync"
+  | "local-ahead"
+  | "confluence-ahead"
+  | "missing-locally"
+  | "missing-remotely";
+
+export type FolderCompareEntry = {
+  status: SyncStatus;
+  pageId?: string;
+  title: string;
+  localPath?: string;      // Relative to the compared folder
+  localVersion?: number;   // From front-matter
+  remoteVersion?: number;
+  matchedBy?: "id" | "title";
+  additions?: number;
+  deletions?: number;
+  totalChanges?: number;
+};
+
+export type FolderCompareResult = {
+  rootPage: string;
+  summary: Record<SyncStatus, number>;
+  pages: FolderCompareEntry[];
+};
+
+type LocalDoc = {
+  relPath: string;
+  id?: string;
+  title: string;
+  version?: number;
+  body: string;
+};
+
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+  // Walked by hand: readdir's recursive option needs Node 18.17
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...await listMarkdownFiles(file));
+    else if (entry.isFile() && entry.name.toLowerCase().endsWith(".md")) files.push(file);
+  }
+  return files.sort();
+}
+
+async function readLocalDoc(root: string, file: string): Promise<LocalDoc> {
+  const text = await fs.readFile(file, "utf8");
+  const { data, body } = parseFrontMatter(text);
+  const heading = body.match(/^#\s+(.+)$/m)?.[1]?.trim();
+
+  return {
+    relPath: path.relative(root, file).split(path.sep).join("/"),
+    id: data.id != null ? String(data.id) : undefined,
+    title: typeof data.title === "string" ? data.title : heading ?? path.basename(file, ".md"),
+    version: typeof data.version === "number" ? data.version : undefined,
+    body,
+  };
+}
+
+/**
+ * Compare every markdown file under a local folder with the pages of a
+ * Confluence subtree.
+ *
+ * Files are paired with pages by front-matter `id` first, then by title
+ * (front-matter `title`, first heading, or file name). When content differs,
+ * the page is `confluence-ahead` if its version is newer than the version
+ * recorded in the file's front-matter, otherwise `local-ahead`.
+ */
+export async function compareFolder(
+  cfg: ConfluenceClientConfig,
+  rootPageId: string,
+  localDir: string,
+  maxDepth: number
+): Promise<FolderCompareResult> {
+  const root = await getPage(cfg, rootPageId);
+  const remote = await collectPageTree(cfg, root, maxDepth);
+
+  const files = await listMarkdownFiles(localDir);
+  const locals = await Promise.all(files.map(f => readLocalDoc(localDir, f)));
+
+  const remoteById = new Map(remote.map(n => [n.id, n]));
+  const remoteByTitle = new Map(remote.map(n => [n.title.trim().toLowerCase(), n]));
+  const paired = new Set<string>();
+  const resolver = createLinkResolver(cfg);
+  const pages: FolderCompareEntry[] = [];
+
+  for (const local of locals) {
+    let node = local.id ? remoteById.get(local.id) : undefined;
+    let matchedBy: "id" | "title" = "id";
+    if (!node && !local.id) {
+      node = remoteByTitle.get(local.title.trim().toLowerCase());
+      matchedBy = "title";
+    }
+    if (!node || paired.has(node.id)) {
+      pages.push({
+        status: "missing-remotely",
+        pageId: local.id,
+        title: local.title,
+        localPath: local.relPath,
+        localVersion: local.version,
+      });
+      continue;
+    }
+    paired.add(node.id);
+
+    const page = node.id === root.id ? root : await getPage(cfg, node.id);
+    const remoteMarkdown = (await getPageMarkdown(cfg, page, resolver)).trim();
+    const localMarkdown = stripTitleHeading(local.body, page.title).trim();
+
+    const stats = generateDiffStats(remoteMarkdown, localMarkdown);
+    const remoteVersion = page.version?.number;
+
+    let status: SyncStatus = "in-sync";
+    if (stats.changes > 0) {
+      status = remoteVersion !== undefined && local.version !== undefined && remoteVersion > local.version
+        ? "confluence-ahead"
+        : "local-ahead";
+    }
+
+    pages.push({
+      status,
+      pageId: page.id,
+      title: page.title,
+      localPath: local.relPath,
+      localVersion: local.version,
+      remoteVersion,
+      matchedBy,
+      additions: stats.additions,
+      deletions: stats.deletions,
+      totalChanges: stats.changes,
+    });
+  }
+
+  for (const node of remote) {
+    if (paired.has(node.id)) continue;
+    pages.push({ status: "missing-locally", pageId: node.id, title: node.title });
+  }
+
+  const summary: Record<SyncStatus, number> = {
+    "in-sync": 0,
+    "local-ahead": 0,
+    "confluence-ahead": 0,
+    "missing-locally": 0,
+    "missing-remotely": 0,
+  };
+  for (const p of pages) summary[p.status]++;
+
+  return { rootPage: root.title, summary, pages };
+}
@@ -0,0 +1,54 @@
+import type { ConfluenceClientConfig } from "../confluence/client.js";
+import { getPage, getPageMarkdown } from "../confluence/cache.js";
+import { createLinkResolver } from "../confluence/links.js";
+import type { ConfluencePageVersion } from "../confluence/types.js";
+import { generateUnifiedDiff, generateDiffStats } from "./diff.js";
+
+/**
+ * Find the version that was current at a given point in time,
+ * i.e. the newest version created at or before `date`.
+ */
+export function findVersionAt(versions: ConfluencePageVersion[], date: Date): ConfluencePageVersion | undefined {
+  return versions
+    .filter(v => v.number !== undefined && v.createdAt && new Date(v.createdAt).getTime() <= date.getTime())
+    .sort((a, b) => b.number! - a.number!)[0];
+}
+
+/**
+ * Diff two versions of a page by converting both to markdown.
+ *
+ * @param fromVersion - Older version number (the "a" side)
+ * @param toVersion - Newer version number; defaults to the current version
+ */
+export async function diffPageVersions(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  fromVersion: number,
+  toVersion?: number
+) {
+  const to = await getPage(cfg, pageId, toVersion !== undefined ? { version: toVersion } : {});
+  const from = await getPage(cfg, pageId, { version: fromVersion });
+
+  const resolver = createLinkResolver(cfg);
+  const fromMarkdown = (await getPageMarkdown(cfg, from, resolver)).trim();
+  const toMarkdown = (await getPageMarkdown(cfg, to, resolver)).trim();
+  const toNumber = to.version?.number ?? toVersion;
+
+  const diff = generateUnifiedDiff(
+    fromMarkdown,
+    toMarkdown,
+    `a/confluence/${from.title}@v${fromVersion}`,
+    `b/confluence/${to.title}@v${toNumber ?? "current"}`
+  );
+  const stats = generateDiffStats(fromMarkdown, toMarkdown);
+
+  return {
+    confluencePage: to.title,
+    fromVersion,
+    toVersion: toNumber,
+    additions: stats.additions,
+    deletions: stats.deletions,
+    totalChanges: stats.changes,
+    diff,
+  };
+}
@@ -0,0 +1,305 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { fetchPageById, fetchPageVersion, fetchAttachments, downloadAttachment, type ConfluenceClientConfig } from "./client.js";
+import { ConfluenceNetworkError } from "./errors.js";
+import { storageToMarkdown, CONVERTER_REVISION } from "./transform.js";
+import { collectLinkTargets } from "./storage.js";
+import { createLinkResolver, type LinkResolver } from "./links.js";
+import type { ConfluencePageResponse, ConfluenceAttachment } from "./types.js";
+
+/**
+ * On-disk cache for page bodies, converted markdown and attachments.
+ *
+ * Layout (per Confluence site):
+ *   <dir>/<site>/pages/<id>/meta.json            current version + last check time
+ *   <dir>/<site>/pages/<id>/v<N>.json            page response with storage body
+ *   <dir>/<site>/pages/<id>/v<N>.r<R>.md         markdown from converter revision R
+ *   <dir>/<site>/attachments/<pageId>/list.json  attachment listing + fetch time
+ *   <dir>/<site>/attachments/<pageId>/<id>.v<N>  attachment content (+ .json metadata)
+ *
+ * With client-supplied credentials, <site> becomes <site>@<credential hash>.
+ *
+ * A page version's content never changes, so entries are revalidated by
+ * comparing version numbers rather than by re-downloading bodies.
+ */
+
+export type CacheSettings = {
+  enabled: boolean;
+  dir: string;
+  ttlMs: number;       // Serve without revalidating for this long (0 = always check the version)
+  offline: boolean;    // Never contact Confluence for cached content
+};
+
+function defaultCacheDir(): string {
+  const xdg = process.env.XDG_CACHE_HOME;
+  return path.join(xdg && xdg.trim() ? xdg : path.join(os.homedir(), ".cache"), "confluence-reader-mcp");
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  enabled: true,
+  dir: defaultCacheDir(),
+  ttlMs: 0,
+  offline: false,
+};
+
+let settings: CacheSettings = { ...DEFAULT_CACHE_SETTINGS };
+
+/**
+ * Override cache settings. Unspecified fields keep their default values.
+ */
+export function configureCache(overrides: Partial<CacheSettings>): CacheSettings {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, v]) => v !== undefined));
+  settings = { ...DEFAULT_CACHE_SETTINGS, ...defined };
+  return settings;
+}
+
+export function getCacheSettings(): CacheSettings {
+  return settings;
+}
+
+type PageMeta = { version: number; checkedAt: number };
+type AttachmentList = { fetchedAt: number; attachments: ConfluenceAttachment[] };
+
+/** Host plus any context path, e.g. "wiki.example.com/confluence". */
+function siteName(baseUrl: string): string {
+  const u = new URL(baseUrl);
+  return `${u.host}${u.pathname.replace(/\/+$/, "")}`;
+}
+
+/**
+ * Directory for one Confluence site, so IDs from different sites never collide.
+ * Content fetched with a client's own credentials goes in a separate directory
+ * per credential, so it is never served to anyone else.
+ */
+function siteDir(cfg: ConfluenceClientConfig): string {
+  const site = cfg.cloudId ?? (cfg.baseUrl ? siteName(cfg.baseUrl) : "default");
+  const name = cfg.cachePartition ? `${site}@${cfg.cachePartition}` : site;
+  return path.join(settings.dir, name.replace(/[^A-Za-z0-9._@-]/g, "_"));
+}
+
+function pageDir(cfg: ConfluenceClientConfig, pageId: string): string {
+  return path.join(siteDir(cfg), "pages", cacheKey(pageId));
+}
+
+function attachmentDir(cfg: ConfluenceClientConfig, pageId: string): string {
+  return path.join(siteDir(cfg), "attachments", cacheKey(pageId));
+}
+
+/** Page IDs name cache directories, so anything but digits could escape the site's directory */
+function cacheKey(pageId: string): string {
+  if (!/^\d+$/.test(pageId)) throw new Error(`Invalid page ID "${pageId}"`);
+  return pageId;
+}
+
+async function readJson<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeFileAtomic(file: string, data: string | Buffer): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Unique per write: concurrent requests may store the same entry
+  const tmp = `${file}.${crypto.randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, file);
+  } catch (err) {
+    await fs.rm(tmp, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Store a cache entry. Failures are ignored: a cache directory that is
+ * read-only or full must not fail the read the entry belongs to.
+ */
+async function storeEntry(file: string, data: string | Buffer): Promise<void> {
+  try {
+    await writeFileAtomic(file, data);
+  } catch {
+    // Served uncached; the next read tries again
+  }
+}
+
+function offlineMiss(what: string): ConfluenceNetworkError {
+  return new ConfluenceNetworkError(
+    new Error(`offline mode is on and ${what} is not cached`),
+    "Unset CONFLUENCE_OFFLINE, or fetch this content once while Confluence is reachable."
+  );
+}
+
+async function storePage(cfg: ConfluenceClientConfig, page: ConfluencePageResponse): Promise<void> {
+  const version = page.version?.number;
+  if (version === undefined) return;
+  await storeEntry(path.join(pageDir(cfg, page.id), `v${version}.json`), JSON.stringify(page));
+}
+
+/**
+ * Fetch a page through the cache.
+ *
+ * Historical versions are served from disk whenever present. For the current
+ * version, the cached copy is reused while within the TTL, or after a
+ * body-less request confirms the version number is unchanged. If Confluence
+ * is unreachable, the last cached copy is served instead.
+ */
+export async function getPage(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  options: { version?: number } = {}
+): Promise<ConfluencePageResponse> {
+  if (!settings.enabled) return fetchPageById(cfg, pageId, options);
+
+  const dir = pageDir(cfg, pageId);
+
+  if (options.version !== undefined) {
+    const cached = await readJson<ConfluencePageResponse>(path.join(dir, `v${options.version}.json`));
+    if (cached) return cached;
+    if (settings.offline) throw offlineMiss(`version ${options.version} of page ${pageId}`);
+    const page = await fetchPageById(cfg, pageId, options);
+    await storePage(cfg, page);
+    return page;
+  }
+
+  const metaFile = path.join(dir, "meta.json");
+  const meta = await readJson<PageMeta>(metaFile);
+  const cached = meta ? await readJson<ConfluencePageResponse>(path.join(dir, `v${meta.version}.json`)) : undefined;
+
+  if (cached && (settings.offline || Date.now() - meta!.checkedAt < settings.ttlMs)) return cached;
+  if (settings.offline) throw offlineMiss(`page ${pageId}`);
+
+  try {
+    if (cached) {
+      const current = await fetchPageVersion(cfg, pageId);
+      if (current === meta!.version) {
+        await storeEntry(metaFile, JSON.stringify({ version: current, checkedAt: Date.now() }));
+        return cached;
+      }
+    }
+
+    const page = await fetchPageById(cfg, pageId);
+    await storePage(cfg, page);
+    if (page.version?.number !== undefined) {
+      await storeEntry(metaFile, JSON.stringify({ version: page.version.number, checkedAt: Date.now() }));
+    }
+    return page;
+  } catch (err) {
+    if (cached && err instanceof ConfluenceNetworkError) return cached;
+    throw err;
+  }
+}
+
+/**
+ * Convert a storage body to markdown, resolving page, user and attachment
+ * links first. In offline mode links are left as placeholders.
+ */
+async function convertPage(cfg: ConfluenceClientConfig, page: ConfluencePageResponse, resolver: LinkResolver): Promise<string> {
+  const storage = page.body?.storage?.value ?? "";
+  if (!storage) return "";
+  if (settings.offline) return storageToMarkdown(storage);
+  const links = await resolver.resolve(page, collectLinkTargets(storage));
+  return storageToMarkdown(storage, { links });
+}
+
+/**
+ * Convert a page's storage body to markdown, reusing a cached conversion of
+ * the same page version and converter revision.
+ *
+ * @param resolver - Link resolver to share lookups across pages; one is created per call otherwise
+ */
+export async function getPageMarkdown(
+  cfg: ConfluenceClientConfig,
+  page: ConfluencePageResponse,
+  resolver: LinkResolver = createLinkResolver(cfg)
+): Promise<string> {
+  const version = page.version?.number;
+  if (!settings.enabled || version === undefined) return convertPage(cfg, page, resolver);
+
+  const file = path.join(pageDir(cfg, page.id), `v${version}.r${CONVERTER_REVISION}.md`);
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch {
+    const markdown = await convertPage(cfg, page, resolver);
+    // Don't persist links left unresolved by a transient failure
+    if (!resolver.incomplete && !settings.offline) await storeEntry(file, markdown);
+    return markdown;
+  }
+}
+
+/**
+ * List a page's attachments through the cache.
+ * The listing has no version number, so it is reused only within the TTL,
+ * in offline mode, or when Confluence is unreachable.
+ */
+export async function getAttachments(cfg: ConfluenceClientConfig, pageId: string): Promise<ConfluenceAttachment[]> {
+  if (!settings.enabled) return fetchAttachments(cfg, pageId);
+
+  const file = path.join(attachmentDir(cfg, pageId), "list.json");
+  const cached = await readJson<AttachmentList>(file);
+
+  if (cached && (settings.offline || Date.now() - cached.fetchedAt < settings.ttlMs)) return cached.attachments;
+  if (settings.offline) throw offlineMiss(`the attachment list of page ${pageId}`);
+
+  try {
+    const attachments = await fetchAttachments(cfg, pageId);
+    await storeEntry(file, JSON.stringify({ fetchedAt: Date.now(), attachments }));
+    return attachments;
+  } catch (err) {
+    if (cached && err instanceof ConfluenceNetworkError) return cached.attachments;
+    throw err;
+  }
+}
+
+/**
+ * Download an attachment through the cache, keyed by attachment ID and version.
+ * Attachments without a known version are always downloaded.
+ */
+export async function getAttachmentContent(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  attachment: ConfluenceAttachment
+): Promise<{ buffer: Buffer; contentType: string }> {
+  const version = attachment.version?.number;
+  if (!settings.enabled || version === undefined) return downloadAttachment(cfg, pageId, attachment.id, attachment.downloadLink);
+
+  const file = path.join(attachmentDir(cfg, pageId), `${attachment.id}.v${version}`);
+  const meta = await readJson<{ contentType: string }>(`${file}.json`);
+  if (meta) {
+    try {
+      return { buffer: await fs.readFile(file), contentType: meta.contentType };
+    } catch {
+      // Metadata without content: fall through and download again
+    }
+  }
+  if (settings.offline) throw offlineMiss(`attachment "${attachment.title}"`);
+
+  const result = await downloadAttachment(cfg, pageId, attachment.id, attachment.downloadLink);
+  await storeEntry(file, result.buffer);
+  await storeEntry(`${file}.json`, JSON.stringify({ contentType: result.contentType }));
+  return result;
+}
+
+/**
+ * Remove cached data for one page (and its attachments), for one site, or for everything.
+ *
+ * @returns The directories that were removed
+ */
+export async function clearCache(cfg?: ConfluenceClientConfig, pageId?: string): Promise<string[]> {
+  const targets = cfg && pageId
+    ? [pageDir(cfg, pageId), attachmentDir(cfg, pageId)]
+    : [cfg ? siteDir(cfg) : settings.dir];
+
+  const removed: string[] = [];
+  for (const target of targets) {
+    const exists = await fs.stat(target).then(() => true, () => false);
+    if (!exists) continue;
+    await fs.rm(target, { recursive: true, force: true });
+    removed.push(target);
+  }
+  return removed;
+}
@@ -1,19 +1,44 @@
-import { ConfluencePageResponse, ConfluenceChildrenResponse, ConfluenceAttachment, ConfluenceAttachmentsResponse } from "./types.js";
+import { ConfluencePageResponse, ConfluenceAttachment, ConfluenceSearchResponse, ConfluencePageVersion, ConfluencePagesResponse, ConfluenceSpace, ConfluenceSpacesResponse, ConfluenceUser, ConfluenceV1Content, ConfluenceV1ContentList, ConfluenceV1VersionList, ConfluenceV1Space } from "./types.js";
+import { request } from "./http.js";
+import { ConfluenceNotFoundError } from "./errors.js";
+import { pageFromV1, versionFromV1, attachmentFromV1, spaceFromV1, nextStart } from "./v1.js";
+import { getAccessToken, type OAuthSettings } from "./oauth.js";
+
+/**
+ * "cloud" talks to Atlassian Cloud through the v2 REST API; "server" talks to
+ * a self-hosted Confluence Server / Data Center through the v1 REST API.
+ */
+export type ConfluenceDeployment = "cloud" | "server";
 
 export type ConfluenceClientConfig = {
-  token: string;        // Scoped API token
-  email?: string;       // User email (required for scoped tokens)
+  token: string;        // Scoped API token, or personal access token on Server / Data Center (empty with OAuth)
+  email?: string;       // User email (required for scoped tokens; omit for personal access tokens)
+  oauth?: OAuthSettings;  // Use OAuth 2.0 (3LO) access tokens instead of a static token (Cloud only)
   cloudId?: string;     // Atlassian Cloud ID
-  baseUrl?: string;     // Direct tenant URL (e.g., https://yourtenant.atlassian.net)
+  baseUrl?: string;     // Direct tenant URL (e.g., https://yourtenant.atlassian.net or https://wiki.example.com/confluence)
+  deployment?: ConfluenceDeployment;  // Defaults to "cloud"
+  cachePartition?: string;  // Keeps one user's cached content apart when clients bring their own credentials
 };
 
+/**
+ * Whether the configuration targets Confluence Server / Data Center.
+ */
+export function isServer(cfg: ConfluenceClientConfig): boolean {
+  return cfg.deployment === "server";
+}
+
 /**
  * Build authorization headers for Confluence API requests
- * Scoped API tokens use Basic Auth with email:token
+ * Scoped API tokens use Basic Auth with email:token; personal access tokens
+ * (Server / Data Center) and OAuth access tokens are sent as a Bearer token.
+ * OAuth tokens are refreshed first if they are about to expire.
  * 
  * @see https://support.atlassian.com/confluence/kb/scoped-api-tokens-in-confluence-cloud/
  */
-export function buildAuthHeaders(cfg: ConfluenceClientConfig): HeadersInit {
+export async function buildAuthHeaders(cfg: ConfluenceClientConfig): Promise<HeadersInit> {
+  if (cfg.oauth) {
+    return { Authorization: `Bearer ${await getAccessToken(cfg.oauth)}` };
+  }
   if (cfg.email) {
     // Scoped tokens use Basic Auth with email:token
     const credentials = Buffer.from(`${cfg.email}:${cfg.token}`).toString('base64');
@@ -25,81 +50,83 @@ export function buildAuthHeaders(cfg: ConfluenceClientConfig): HeadersInit {
 
 /**
  * Build base URL for Confluence API requests
- * Prefers cloudId routing over direct baseUrl
+ * Prefers cloudId routing over direct baseUrl on Cloud. On Server / Data Center
+ * the base URL includes any context path (e.g. /confluence) and has no /wiki prefix.
  */
 export function buildBase(cfg: ConfluenceClientConfig): string {
+  if (isServer(cfg)) {
+    if (!cfg.baseUrl) throw new Error("Set CONFLUENCE_BASE_URL for Confluence Server / Data Center.");
+    return cfg.baseUrl.replace(/\/+$/, "");
+  }
   // Prefer cloudId routing (works well with scoped token access patterns)
+  if (cfg.oauth && !cfg.cloudId) throw new Error("OAuth requests route through api.atlassian.com and need a cloud ID; sign in again or set CONFLUENCE_CLOUD_ID.");
   if (cfg.cloudId) return `https://api.atlassian.com/ex/confluence/${cfg.cloudId}`;
   if (cfg.baseUrl) return cfg.baseUrl;
   throw new Error("Set CONFLUENCE_CLOUD_ID or CONFLUENCE_BASE_URL.");
 }
 
 /**
- * Fetch a Confluence page by ID using the v2 REST API
- * 
- * @param cfg - Client configuration with token and routing info
- * @param pageId - Numeric page ID
- * @returns Page data including title, content, and metadata
- * @throws Error if API request fails
+ * GET a v1 REST API resource and parse the JSON response.
  */
-export async function fetchPageById(cfg: ConfluenceClientConfig, pageId: string): Promise<ConfluencePageResponse> {
-  const base = buildBase(cfg);
-  
-  // v2 endpoint with body-format=storage to get HTML content
-  const url = new URL(`${base}/wiki/api/v2/pages/${pageId}`);
-  url.searchParams.set("body-format", "storage");
-  
-  const res = await fetch(url.toString(), {
+async function getV1<T>(cfg: ConfluenceClientConfig, url: URL): Promise<T> {
+  const res = await request(url.toString(), {
     method: "GET",
     headers: {
-      ...buildAuthHeaders(cfg),
-      Accept: "application/json"
-    }
+      ...(await buildAuthHeaders(cfg)),
+      Accept: "application/json",
+    },
   });
-  
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Confluence API error ${res.status}: ${text.slice(0, 500)}`);
-  }
-  
-  return (await res.json()) as ConfluencePageResponse;
+  return (await res.json()) as T;
 }
 
 /**
- * Fetch direct child pages of a Confluence page using the v2 REST API.
- * Returns all children (paginates automatically).
+ * GET every page of a paginated v1 list endpoint (start/limit offsets).
  */
-export async function fetchChildPages(cfg: ConfluenceClientConfig, pageId: string): Promise<ConfluencePageResponse[]> {
+async function getAllV1<T = ConfluenceV1Content>(cfg: ConfluenceClientConfig, path: string, params: Record<string, string>): Promise<T[]> {
   const base = buildBase(cfg);
-  const all: ConfluencePageResponse[] = [];
+  const all: T[] = [];
+  let start: number | undefined = 0;
+
+  while (start !== undefined) {
+    const url = new URL(`${base}${path}`);
+    for (const [name, value] of Object.entries(params)) url.searchParams.set(name, value);
+    url.searchParams.set("limit", "50");
+    url.searchParams.set("start", String(start));
+
+    const data = await getV1<{ results: T[]; start?: number; size?: number; _links?: { next?: string } }>(cfg, url);
+    all.push(...data.results);
+    start = nextStart(data);
+  }
+
+  return all;
+}
+
+/**
+ * GET every page of a paginated v2 list endpoint, following the cursor in
+ * each response's next link. `url` carries the endpoint's own parameters.
+ */
+async function getAllV2<T>(cfg: ConfluenceClientConfig, url: URL): Promise<T[]> {
+  const all: T[] = [];
   let cursor: string | undefined;
 
   while (true) {
-    const url = new URL(`${base}/wiki/api/v2/pages/${pageId}/children`);
-    url.searchParams.set("limit", "50");
-    if (cursor) url.searchParams.set("cursor", cursor);
+    const pageUrl = new URL(url);
+    if (cursor) pageUrl.searchParams.set("cursor", cursor);
 
-    const res = await fetch(url.toString(), {
+    const res = await request(pageUrl.toString(), {
       method: "GET",
       headers: {
-        ...buildAuthHeaders(cfg),
+        ...(await buildAuthHeaders(cfg)),
         Accept: "application/json",
       },
     });
 
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      throw new Error(`Confluence API error ${res.status}: ${text.slice(0, 500)}`);
-    }
-
-    const data = (await res.json()) as ConfluenceChildrenResponse;
+    const data = (await res.json()) as { results: T[]; _links?: { next?: string } };
     all.push(...data.results);
 
     if (!data._links?.next) break;
-
     // The next link contains the cursor parameter
-    const nextUrl = new URL(data._links.next, base);
-    cursor = nextUrl.searchParams.get("cursor") ?? undefined;
+    cursor = new URL(data._links.next, url).searchParams.get("cursor") ?? undefined;
     if (!cursor) break;
   }
 
@@ -107,69 +134,565 @@ export async function fetchChildPages(cfg: ConfluenceClientConfig, pageId: strin
 }
 
 /**
- * Fetch attachments for a Confluence page.
- * Returns all attachments (paginates automatically).
+ * Blog posts live under /blogposts rather than /pages in the v2 API. Run a
+ * request against /pages first and retry it against /blogposts on a 404, so
+ * every page function also accepts blog post IDs.
  */
-export async function fetchAttachments(cfg: ConfluenceClientConfig, pageId: string): Promise<ConfluenceAttachment[]> {
+async function pagesOrBlogPosts<T>(run: (collection: "pages" | "blogposts") => Promise<T>): Promise<T> {
+  try {
+    return await run("pages");
+  } catch (err) {
+    if (!(err instanceof ConfluenceNotFoundError)) throw err;
+    return run("blogposts");
+  }
+}
+
+/**
+ * Fetch a Confluence page by ID using the v2 REST API
+ * 
+ * @param cfg - Client configuration with token and routing info
+ * @param pageId - Numeric page ID
+ * @param options.version - Historical version number to fetch instead of the current one
+ * @returns Page data including title, content, and metadata
+ * @throws ConfluenceApiError if API request fails
+ */
+export async function fetchPageById(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  options: { version?: number } = {}
+): Promise<ConfluencePageResponse> {
   const base = buildBase(cfg);
-  const all: ConfluenceAttachment[] = [];
-  let cursor: string | undefined;
 
-  while (true) {
-    const url = new URL(`${base}/wiki/api/v2/pages/${pageId}/attachments`);
-    url.searchParams.set("limit", "50");
-    if (cursor) url.searchParams.set("cursor", cursor);
+  if (isServer(cfg)) {
+    const url = new URL(`${base}/rest/api/content/${pageId}`);
+    url.searchParams.set("expand", "body.storage,version,space,ancestors");
+    if (options.version !== undefined) {
+      url.searchParams.set("status", "historical");
+      url.searchParams.set("version", String(options.version));
+    }
+    return pageFromV1(await getV1<ConfluenceV1Content>(cfg, url), base);
+  }
+  
+  return pagesOrBlogPosts(async collection => {
+    // v2 endpoint with body-format=storage to get HTML content
+    const url = new URL(`${base}/wiki/api/v2/${collection}/${pageId}`);
+    url.searchParams.set("body-format", "storage");
+    if (options.version !== undefined) url.searchParams.set("version", String(options.version));
+  
+    const res = await request(url.toString(), {
+      method: "GET",
+      headers: {
+        ...(await buildAuthHeaders(cfg)),
+        Accept: "application/json"
+      }
+    });
+  
+    return (await res.json()) as ConfluencePageResponse;
+  });
+}
+
+/**
+ * Fetch only the current version number of a page (no body), as a cheap
+ * freshness check for cached content.
+ */
+export async function fetchPageVersion(cfg: ConfluenceClientConfig, pageId: string): Promise<number | undefined> {
+  const base = buildBase(cfg);
 
-    const res = await fetch(url.toString(), {
+  if (isServer(cfg)) {
+    const url = new URL(`${base}/rest/api/content/${pageId}`);
+    url.searchParams.set("expand", "version");
+    return (await getV1<ConfluenceV1Content>(cfg, url)).version?.number;
+  }
+
+  return pagesOrBlogPosts(async collection => {
+    const url = new URL(`${base}/wiki/api/v2/${collection}/${pageId}`);
+
+    const res = await request(url.toString(), {
       method: "GET",
       headers: {
-        ...buildAuthHeaders(cfg),
+        ...(await buildAuthHeaders(cfg)),
         Accept: "application/json",
       },
     });
 
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      throw new Error(`Confluence API error ${res.status}: ${text.slice(0, 500)}`);
+    const page = (await res.json()) as ConfluencePageResponse;
+    return page.version?.number;
+  });
+}
+
+/**
+ * Fetch direct child pages of a Confluence page using the v2 REST API.
+ * Returns all children (paginates automatically).
+ */
+export async function fetchChildPages(cfg: ConfluenceClientConfig, pageId: string): Promise<ConfluencePageResponse[]> {
+  const base = buildBase(cfg);
+
+  if (isServer(cfg)) {
+    const children = await getAllV1(cfg, `/rest/api/content/${pageId}/child/page`, { expand: "version" });
+    return children.map(c => ({ ...pageFromV1(c, base), parentId: pageId }));
+  }
+
+  try {
+    const url = new URL(`${base}/wiki/api/v2/pages/${pageId}/children`);
+    url.searchParams.set("limit", "50");
+    return await getAllV2<ConfluencePageResponse>(cfg, url);
+  } catch (err) {
+    if (!(err instanceof ConfluenceNotFoundError)) throw err;
+    // Blog posts have no children; this throws if the ID is not a blog post either
+    await fetchPageVersion(cfg, pageId);
+    return [];
+  }
+}
+
+/**
+ * Fetch the ancestors of a page, from the top of the space down to its direct
+ * parent, together with the space it lives in.
+ * Uses the v1 REST API, which returns ancestor titles in a single request.
+ */
+export async function fetchAncestors(
+  cfg: ConfluenceClientConfig,
+  pageId: string
+): Promise<{ space?: { key?: string; name?: string }; ancestors: { id: string; title: string }[] }> {
+  const base = buildBase(cfg);
+  const url = new URL(isServer(cfg) ? `${base}/rest/api/content/${pageId}` : `${base}/wiki/rest/api/content/${pageId}`);
+  url.searchParams.set("expand", "ancestors,space");
+
+  const content = await getV1<ConfluenceV1Content>(cfg, url);
+  return {
+    space: content.space,
+    ancestors: (content.ancestors ?? []).map(a => ({ id: a.id, title: a.title ?? a.id })),
+  };
+}
+
+/**
+ * Fetch the version history of a Confluence page, newest first.
+ * Returns all versions (paginates automatically).
+ */
+export async function fetchPageVersions(cfg: ConfluenceClientConfig, pageId: string): Promise<ConfluencePageVersion[]> {
+  const base = buildBase(cfg);
+
+  if (isServer(cfg)) {
+    const all: ConfluencePageVersion[] = [];
+    let start: number | undefined = 0;
+    while (start !== undefined) {
+      const url = new URL(`${base}/rest/api/content/${pageId}/version`);
+      url.searchParams.set("limit", "50");
+      url.searchParams.set("start", String(start));
+      const data = await getV1<ConfluenceV1VersionList & { start?: number; size?: number }>(cfg, url);
+      all.push(...data.results.map(v => versionFromV1(v)!));
+      start = nextStart(data);
     }
+    return all;
+  }
 
-    const data = (await res.json()) as ConfluenceAttachmentsResponse;
-    all.push(...data.results);
+  return pagesOrBlogPosts(collection => {
+    const url = new URL(`${base}/wiki/api/v2/${collection}/${pageId}/versions`);
+    url.searchParams.set("limit", "50");
+    url.searchParams.set("sort", "-modified-date");
+    return getAllV2<ConfluencePageVersion>(cfg, url);
+  });
+}
 
-    if (!data._links?.next) break;
-    const nextUrl = new URL(data._links.next, base);
-    cursor = nextUrl.searchParams.get("cursor") ?? undefined;
-    if (!cursor) break;
+/**
+ * Fetch attachments for a Confluence page.
+ * Returns all attachments (paginates automatically).
+ */
+export async function fetchAttachments(cfg: ConfluenceClientConfig, pageId: string): Promise<ConfluenceAttachment[]> {
+  const base = buildBase(cfg);
+
+  if (isServer(cfg)) {
+    const attachments = await getAllV1(cfg, `/rest/api/content/${pageId}/child/attachment`, { expand: "version" });
+    return attachments.map(attachmentFromV1);
   }
 
-  return all;
+  return pagesOrBlogPosts(async collection => {
+    const url = new URL(`${base}/wiki/api/v2/${collection}/${pageId}/attachments`);
+    url.searchParams.set("limit", "50");
+    return getAllV2<ConfluenceAttachment>(cfg, url);
+  });
 }
 
 /**
- * Download an attachment binary from a Confluence page.
+ * Request an attachment's content.
  * Uses the v1 REST API download endpoint which works with scoped tokens.
+ * Server / Data Center has no such endpoint, so the attachment's download
+ * link is used instead (looked up if the caller does not have it).
  */
-export async function downloadAttachment(
+async function requestAttachment(
   cfg: ConfluenceClientConfig,
   pageId: string,
-  attachmentId: string
-): Promise<{ buffer: Buffer; contentType: string }> {
+  attachmentId: string,
+  downloadLink?: string
+): Promise<Response> {
   const base = buildBase(cfg);
-  const url = `${base}/wiki/rest/api/content/${pageId}/child/attachment/${attachmentId}/download`;
+  let url = `${base}/wiki/rest/api/content/${pageId}/child/attachment/${attachmentId}/download`;
 
-  const res = await fetch(url, {
+  if (isServer(cfg)) {
+    const link = downloadLink
+      ?? (await getV1<ConfluenceV1Content>(cfg, new URL(`${base}/rest/api/content/${attachmentId}`)))._links?.download;
+    if (!link) throw new ConfluenceNotFoundError(`attachment ${attachmentId} has no download link`);
+    url = `${base}${link}`;
+  }
+
+  return request(url, {
     method: "GET",
-    headers: buildAuthHeaders(cfg),
+    headers: await buildAuthHeaders(cfg),
     redirect: "follow",
   });
+}
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Attachment download error ${res.status}: ${text.slice(0, 500)}`);
-  }
+/**
+ * Download an attachment binary from a Confluence page into memory.
+ */
+export async function downloadAttachment(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  attachmentId: string,
+  downloadLink?: string
+): Promise<{ buffer: Buffer; contentType: string }> {
+  const res = await requestAttachment(cfg, pageId, attachmentId, downloadLink);
+  const contentType = res.headers.get("content-type") ?? "application/octet-stream";
+  const arrayBuffer = await res.arrayBuffer();
+  return { buffer: Buffer.from(arrayBuffer), contentType };
+}
+
+/**
+ * Open an attachment binary as a stream, for files too large to hold in memory.
+ */
+export async function streamAttachment(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  attachmentId: string,
+  downloadLink?: string
+): Promise<{ stream: ReadableStream<Uint8Array>; contentType: string }> {
+  const res = await requestAttachment(cfg, pageId, attachmentId, downloadLink);
+  const contentType = res.headers.get("content-type") ?? "application/octet-stream";
+  if (!res.body) throw new ConfluenceNotFoundError(`attachment ${attachmentId} has no content`);
+  return { stream: res.body, contentType };
+}
+
+
+/**
+ * Download Confluence's thumbnail rendition of an image attachment, a much
+ * smaller copy scaled down on the server.
+ */
+export async function downloadAttachmentThumbnail(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  filename: string
+): Promise<{ buffer: Buffer; contentType: string }> {
+  const base = buildBase(cfg);
+  const wiki = isServer(cfg) ? base : `${base}/wiki`;
+  const res = await request(`${wiki}/download/thumbnails/${pageId}/${encodeURIComponent(filename)}`, {
+    method: "GET",
+    headers: await buildAuthHeaders(cfg),
+    redirect: "follow",
+  });
 
   const contentType = res.headers.get("content-type") ?? "application/octet-stream";
   const arrayBuffer = await res.arrayBuffer();
   return { buffer: Buffer.from(arrayBuffer), contentType };
 }
 
+/**
+ * Run a CQL search using the v1 REST API.
+ * Returns a single page of results plus the cursor for the next page, if any.
+ */
+export async function searchContent(
+  cfg: ConfluenceClientConfig,
+  cql: string,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<{ results: ConfluenceSearchResponse["results"]; nextCursor?: string; base?: string; totalSize?: number }> {
+  const base = buildBase(cfg);
+  const url = new URL(isServer(cfg) ? `${base}/rest/api/search` : `${base}/wiki/rest/api/search`);
+  url.searchParams.set("cql", cql);
+  url.searchParams.set("limit", String(options.limit ?? 25));
+  url.searchParams.set("expand", "content.space,content.version");
+  // Server / Data Center paginates by offset; the offset is passed around as the cursor
+  if (options.cursor) url.searchParams.set(isServer(cfg) ? "start" : "cursor", options.cursor);
+
+  const res = await request(url.toString(), {
+    method: "GET",
+    headers: {
+      ...(await buildAuthHeaders(cfg)),
+      Accept: "application/json",
+    },
+  });
+
+  const data = (await res.json()) as ConfluenceSearchResponse & { start?: number; size?: number };
+
+  let nextCursor: string | undefined;
+  if (isServer(cfg)) {
+    nextCursor = nextStart(data)?.toString();
+  } else if (data._links?.next) {
+    nextCursor = new URL(data._links.next, base).searchParams.get("cursor") ?? undefined;
+  }
+
+  return { results: data.results, nextCursor, base: data._links?.base, totalSize: data.totalSize };
+}
+
+/**
+ * Replace the body of an existing page using the v2 REST API.
+ *
+ * @param update.version - The new version number (current version + 1)
+ * @returns The updated page
+ * @throws ConfluenceApiError if API request fails (status 409 when the version is stale)
+ */
+export async function updatePage(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  update: { title: string; storage: string; version: number; message?: string; status?: string }
+): Promise<ConfluencePageResponse> {
+  const base = buildBase(cfg);
+
+  if (isServer(cfg)) {
+    const res = await request(`${base}/rest/api/content/${pageId}`, {
+      method: "PUT",
+      headers: {
+        ...(await buildAuthHeaders(cfg)),
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        id: pageId,
+        type: "page",
+        status: update.status ?? "current",
+        title: update.title,
+        body: { storage: { representation: "storage", value: update.storage } },
+        version: { number: update.version, message: update.message },
+      }),
+    });
+    return pageFromV1((await res.json()) as ConfluenceV1Content, base);
+  }
+
+  return pagesOrBlogPosts(async collection => {
+    const url = `${base}/wiki/api/v2/${collection}/${pageId}`;
+
+    const res = await request(url, {
+      method: "PUT",
+      headers: {
+        ...(await buildAuthHeaders(cfg)),
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        id: pageId,
+        status: update.status ?? "current",
+        title: update.title,
+        body: { representation: "storage", value: update.storage },
+        version: { number: update.version, message: update.message },
+      }),
+    });
+
+    return (await res.json()) as ConfluencePageResponse;
+  });
+}
+
+/**
+ * List the spaces visible to the caller, optionally only those of one type
+ * (e.g. "global" or "personal"). Returns all spaces (paginates automatically).
+ */
+export async function fetchSpaces(cfg: ConfluenceClientConfig, options: { type?: string } = {}): Promise<ConfluenceSpace[]> {
+  const base = buildBase(cfg);
+
+  if (isServer(cfg)) {
+    const params: Record<string, string> = { expand: "homepage" };
+    if (options.type) params.type = options.type;
+    const spaces = await getAllV1<ConfluenceV1Space>(cfg, "/rest/api/space", params);
+    return spaces.map(spaceFromV1);
+  }
+
+  const url = new URL(`${base}/wiki/api/v2/spaces`);
+  url.searchParams.set("limit", "250");
+  if (options.type) url.searchParams.set("type", options.type);
+  return getAllV2<ConfluenceSpace>(cfg, url);
+}
+
+/**
+ * Fetch every current page in a space (titles, parents and positions, no bodies),
+ * so the whole hierarchy can be built without a request per page.
+ *
+ * @param options.rootOnly - Only the top-level pages of the space
+ */
+export async function fetchSpacePages(
+  cfg: ConfluenceClientConfig,
+  spaceId: string,
+  options: { rootOnly?: boolean } = {}
+): Promise<ConfluencePageResponse[]> {
+  const base = buildBase(cfg);
+
+  if (isServer(cfg)) {
+    const pages = options.rootOnly
+      ? await getAllV1(cfg, `/rest/api/space/${encodeURIComponent(spaceId)}/content/page`, { depth: "root" })
+      : await getAllV1(cfg, "/rest/api/content", { type: "page", spaceKey: spaceId, status: "current", expand: "ancestors" });
+    return pages.map(p => pageFromV1(p, base));
+  }
+
+  const url = new URL(`${base}/wiki/api/v2/spaces/${spaceId}/pages`);
+  url.searchParams.set("limit", "250");
+  url.searchParams.set("status", "current");
+  if (options.rootOnly) url.searchParams.set("depth", "root");
+  return getAllV2<ConfluencePageResponse>(cfg, url);
+}
+
+/**
+ * Look up a space by its key using the v2 REST API.
+ * Returns undefined if no space with that key is visible to the caller.
+ */
+export async function fetchSpaceByKey(cfg: ConfluenceClientConfig, spaceKey: string): Promise<ConfluenceSpace | undefined> {
+  const base = buildBase(cfg);
+
+  if (isServer(cfg)) {
+    const url = new URL(`${base}/rest/api/space/${encodeURIComponent(spaceKey)}`);
+    url.searchParams.set("expand", "homepage");
+    try {
+      return spaceFromV1(await getV1<ConfluenceV1Space>(cfg, url));
+    } catch (err) {
+      if (err instanceof ConfluenceNotFoundError) return undefined;
+      throw err;
+    }
+  }
+
+  const url = new URL(`${base}/wiki/api/v2/spaces`);
+  url.searchParams.set("keys", spaceKey);
+  url.searchParams.set("limit", "1");
+
+  const res = await request(url.toString(), {
+    method: "GET",
+    headers: {
+      ...(await buildAuthHeaders(cfg)),
+      Accept: "application/json",
+    },
+  });
+
+  const data = (await res.json()) as ConfluenceSpacesResponse;
+  return data.results[0];
+}
+
+/**
+ * Find current pages in a space with an exact title.
+ * Confluence titles are unique per space, so this returns at most one page in practice.
+ */
+export async function findPagesByTitle(cfg: ConfluenceClientConfig, spaceId: string, title: string): Promise<ConfluencePageResponse[]> {
+  const base = buildBase(cfg);
+
+  if (isServer(cfg)) {
+    const url = new URL(`${base}/rest/api/content`);
+    url.searchParams.set("type", "page");
+    url.searchParams.set("spaceKey", spaceId);
+    url.searchParams.set("title", title);
+    url.searchParams.set("status", "current");
+    url.searchParams.set("expand", "version,space");
+    url.searchParams.set("limit", "25");
+    const data = await getV1<ConfluenceV1ContentList>(cfg, url);
+    return data.results.map(c => pageFromV1(c, data._links?.base ?? base));
+  }
+
+  const url = new URL(`${base}/wiki/api/v2/pages`);
+  url.searchParams.set("space-id", spaceId);
+  url.searchParams.set("title", title);
+  url.searchParams.set("status", "current");
+  url.searchParams.set("limit", "25");
+
+  const res = await request(url.toString(), {
+    method: "GET",
+    headers: {
+      ...(await buildAuthHeaders(cfg)),
+      Accept: "application/json",
+    },
+  });
+
+  const data = (await res.json()) as ConfluencePagesResponse;
+  return data.results;
+}
+
+/**
+ * Create a new page using the v2 REST API.
+ * Without a parentId the page is created at the top level of the space.
+ */
+export async function createPage(
+  cfg: ConfluenceClientConfig,
+  page: { spaceId: string; title: string; storage: string; parentId?: string }
+): Promise<ConfluencePageResponse> {
+  const base = buildBase(cfg);
+
+  if (isServer(cfg)) {
+    const res = await request(`${base}/rest/api/content`, {
+      method: "POST",
+      headers: {
+        ...(await buildAuthHeaders(cfg)),
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        type: "page",
+        status: "current",
+        title: page.title,
+        space: { key: page.spaceId },
+        ancestors: page.parentId ? [{ id: page.parentId }] : undefined,
+        body: { storage: { representation: "storage", value: page.storage } },
+      }),
+    });
+    return pageFromV1((await res.json()) as ConfluenceV1Content, base);
+  }
+
+  const url = `${base}/wiki/api/v2/pages`;
+
+  const res = await request(url, {
+    method: "POST",
+    headers: {
+      ...(await buildAuthHeaders(cfg)),
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      spaceId: page.spaceId,
+      status: "current",
+      title: page.title,
+      parentId: page.parentId,
+      body: { representation: "storage", value: page.storage },
+    }),
+  });
+
+  return (await res.json()) as ConfluencePageResponse;
+}
+
+/**
+ * Make a minimal authenticated request to confirm the configuration works.
+ *
+ * @throws ConfluenceApiError classified the same way as any other request
+ */
+export async function verifyAccess(cfg: ConfluenceClientConfig): Promise<void> {
+  const base = buildBase(cfg);
+  const url = new URL(isServer(cfg) ? `${base}/rest/api/content` : `${base}/wiki/api/v2/pages`);
+  url.searchParams.set("limit", "1");
+
+  const res = await request(url.toString(), {
+    method: "GET",
+    headers: {
+      ...(await buildAuthHeaders(cfg)),
+      Accept: "application/json",
+    },
+  });
+  await res.body?.cancel();
+}
+
+/**
+ * Look up a user by account ID using the v1 REST API.
+ * Server / Data Center identifies users by user key instead.
+ */
+export async function fetchUser(cfg: ConfluenceClientConfig, accountId: string): Promise<ConfluenceUser> {
+  const base = buildBase(cfg);
+  const url = new URL(isServer(cfg) ? `${base}/rest/api/user` : `${base}/wiki/rest/api/user`);
+  url.searchParams.set(isServer(cfg) ? "key" : "accountId", accountId);
+
+  const res = await request(url.toString(), {
+    method: "GET",
+    headers: {
+      ...(await buildAuthHeaders(cfg)),
+      Accept: "application/json",
+    },
+  });
+
+  return (await res.json()) as ConfluenceUser;
+}
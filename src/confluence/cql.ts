@@ -0,0 +1,38 @@
+/**
+ * Helpers for building Confluence Query Language (CQL) expressions.
+ *
+ * @see https://developer.atlassian.com/cloud/confluence/advanced-searching-using-cql/
+ */
+
+export type CqlFilters = {
+  text?: string;          // Full-text search
+  space?: string;         // Space key
+  label?: string;
+  contributor?: string;   // Account ID, or currentUser()
+  type?: "page" | "blogpost" | "attachment";
+};
+
+/** Quote a value for use inside a CQL expression. */
+export function quoteCql(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Combine structured filters into a single CQL query.
+ * Results are ordered by last modification, newest first.
+ */
+export function buildCql(filters: CqlFilters): string {
+  const clauses: string[] = [];
+
+  if (filters.type) clauses.push(`type = ${filters.type}`);
+  if (filters.text) clauses.push(`text ~ ${quoteCql(filters.text)}`);
+  if (filters.space) clauses.push(`space = ${quoteCql(filters.space)}`);
+  if (filters.label) clauses.push(`label = ${quoteCql(filters.label)}`);
+  if (filters.contributor) {
+    const who = filters.contributor === "currentUser()" ? "currentUser()" : quoteCql(filters.contributor);
+    clauses.push(`contributor = ${who}`);
+  }
+
+  if (clauses.length === 0) throw new Error("At least one search filter is required.");
+  return `${clauses.join(" AND ")} ORDER BY lastmodified DESC`;
+}
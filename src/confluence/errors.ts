@@ -0,0 +1,156 @@
+/**
+ * Typed errors for Confluence API failures.
+ *
+ * Every failed request is classified into one of the subclasses below so
+ * callers can branch on `instanceof` and surface a human-readable hint
+ * instead of a raw response body.
+ */
+
+export class ConfluenceApiError extends Error {
+  /** HTTP status, if a response was received */
+  readonly status?: number;
+  /** Short explanation of what to do about the failure */
+  readonly hint: string;
+
+  constructor(message: string, hint: string, status?: number) {
+    super(message);
+    this.name = new.target.name;
+    this.hint = hint;
+    this.status = status;
+  }
+}
+
+export class ConfluenceNotFoundError extends ConfluenceApiError {
+  constructor(detail: string) {
+    super(
+      `Confluence API error 404 (not found)${detail ? `: ${detail}` : ""}`,
+      "Check the page URL or ID. The content may have been deleted or moved, or it is restricted — Confluence returns 404 for content you cannot view.",
+      404
+    );
+  }
+}
+
+export class ConfluenceUnauthorizedError extends ConfluenceApiError {
+  constructor(detail: string) {
+    super(
+      `Confluence API error 401 (unauthorized)${detail ? `: ${detail}` : ""}`,
+      "Authentication failed. Check CONFLUENCE_TOKEN (and CONFLUENCE_EMAIL on Cloud); the token may be expired or revoked.",
+      401
+    );
+  }
+}
+
+export class ConfluenceAuthRequiredError extends ConfluenceApiError {
+  constructor(detail: string) {
+    super(
+      `Confluence OAuth sign-in required${detail ? `: ${detail}` : ""}`,
+      "Run `npx @satiyap/confluence-reader-mcp login` in a terminal to sign in again, then retry.",
+      401
+    );
+  }
+}
+
+export class ConfluenceForbiddenError extends ConfluenceApiError {
+  constructor(detail: string) {
+    super(
+      `Confluence API error 403 (forbidden)${detail ? `: ${detail}` : ""}`,
+      "The token lacks permission for this operation. Ensure your scoped token has the required read (or write) scopes and access to the space.",
+      403
+    );
+  }
+}
+
+export class ConfluenceRateLimitError extends ConfluenceApiError {
+  /** Seconds to wait before retrying, from the Retry-After header */
+  readonly retryAfter?: number;
+
+  constructor(detail: string, retryAfter?: number) {
+    super(
+      `Confluence API error 429 (rate limited)${detail ? `: ${detail}` : ""}`,
+      retryAfter !== undefined
+        ? `Confluence is throttling requests. Wait about ${retryAfter}s before retrying.`
+        : "Confluence is throttling requests. Wait a little before retrying.",
+      429
+    );
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ConfluenceServerError extends ConfluenceApiError {
+  constructor(status: number, detail: string) {
+    super(
+      `Confluence API error ${status} (server error)${detail ? `: ${detail}` : ""}`,
+      "Confluence had an internal problem. Retry shortly; if it persists, check https://status.atlassian.com.",
+      status
+    );
+  }
+}
+
+export class ConfluenceNetworkError extends ConfluenceApiError {
+  constructor(cause: unknown, hint = "Check your network connection and CONFLUENCE_CLOUD_ID / CONFLUENCE_BASE_URL.") {
+    super(
+      `Could not reach Confluence API: ${cause instanceof Error ? cause.message : String(cause)}`,
+      hint
+    );
+    this.cause = cause;
+  }
+}
+
+export class ConfluenceTimeoutError extends ConfluenceNetworkError {
+  constructor(timeoutMs: number) {
+    super(
+      new Error(`request timed out after ${timeoutMs}ms`),
+      "Confluence did not respond in time. Retry, or raise CONFLUENCE_TIMEOUT_MS for very large pages."
+    );
+  }
+}
+
+/**
+ * Pull a short human-readable message out of a Confluence error body.
+ * Handles v2 (`errors[].title/detail`) and v1 (`message`) shapes, falling
+ * back to the truncated raw text.
+ */
+function extractDetail(text: string): string {
+  try {
+    const data = JSON.parse(text);
+    const v2 = data?.errors?.[0];
+    if (v2) return [v2.title, v2.detail].filter(Boolean).join(" — ");
+    if (typeof data?.message === "string") return data.message;
+  } catch {
+    // Not JSON
+  }
+  return text.replace(/\s+/g, " ").trim().slice(0, 300);
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Build the matching error for a non-OK response. Consumes the response body.
+ */
+export async function errorFromResponse(res: Response): Promise<ConfluenceApiError> {
+  const text = await res.text().catch(() => "");
+  const detail = extractDetail(text);
+
+  switch (res.status) {
+    case 401: return new ConfluenceUnauthorizedError(detail);
+    case 403: return new ConfluenceForbiddenError(detail);
+    case 404: return new ConfluenceNotFoundError(detail);
+    case 429: return new ConfluenceRateLimitError(detail, parseRetryAfter(res.headers.get("retry-after")));
+  }
+
+  if (res.status >= 500) return new ConfluenceServerError(res.status, detail);
+
+  return new ConfluenceApiError(
+    `Confluence API error ${res.status}${detail ? `: ${detail}` : ""}`,
+    res.status === 409
+      ? "The content changed or conflicts with existing content. Re-read it and retry."
+      : "Confluence rejected the request. Check the arguments and try again.",
+    res.status
+  );
+}
@@ -0,0 +1,50 @@
+import { isCDATA, isTag, isText, hasChildren, type AnyNode, type Element } from "domhandler";
+
+/** Escape text for use as HTML element content. */
+export function escapeText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Escape text for use inside a double-quoted HTML attribute. */
+export function escapeAttr(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+/**
+ * A visible, italic marker paragraph (e.g. "— Excerpt start —") for
+ * structure that has no markdown equivalent.
+ */
+export function markerLine(text: string): string {
+  return `<p><em>— ${escapeText(text)} —</em></p>`;
+}
+
+/** Concatenated text of a node and its descendants, including CDATA sections. */
+export function textOf(node: AnyNode): string {
+  if (isText(node)) return node.data;
+  if (isCDATA(node) || hasChildren(node)) return node.children.map(textOf).join("");
+  return "";
+}
+
+/** Direct element children of a node with the given tag name. */
+export function childElements(node: Element, name: string): Element[] {
+  return node.children.filter((c): c is Element => isTag(c) && c.name === name);
+}
+
+/** First direct element child with the given tag name. */
+export function childElement(node: Element, name: string): Element | undefined {
+  return childElements(node, name)[0];
+}
+
+/** First element with the given tag name anywhere below a node. */
+export function findElement(node: Element, name: string): Element | undefined {
+  for (const child of node.children) {
+    if (!isTag(child)) continue;
+    if (child.name === name) return child;
+    const nested = findElement(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
@@ -0,0 +1,180 @@
+import { ConfluenceApiError, ConfluenceNetworkError, ConfluenceRateLimitError, ConfluenceServerError, ConfluenceTimeoutError, errorFromResponse } from "./errors.js";
+
+/**
+ * Shared request layer for the Confluence client.
+ *
+ * Every API call goes through `request()`, which:
+ * - caps the number of in-flight requests, counting a request until its body has been read,
+ * - aborts attempts whose headers, or the next piece of whose body, take longer than the timeout,
+ * - retries 429 and 5xx responses with exponential backoff, honoring Retry-After,
+ * - throws typed ConfluenceApiErrors for anything that still fails.
+ */
+
+export type RequestPolicy = {
+  maxRetries: number;       // Retries after the first attempt
+  baseDelayMs: number;      // First backoff delay; doubles on each retry
+  maxDelayMs: number;       // Upper bound for any single wait, including Retry-After
+  timeoutMs: number;        // Per-attempt timeout until response headers arrive, and between body chunks
+  maxConcurrent: number;    // Maximum requests in flight at once
+};
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  timeoutMs: 30_000,
+  maxConcurrent: 4,
+};
+
+let policy: RequestPolicy = { ...DEFAULT_REQUEST_POLICY };
+
+/**
+ * Override the request policy for all subsequent requests.
+ * Unspecified fields keep their default values.
+ */
+export function configureRequestPolicy(overrides: Partial<RequestPolicy>): RequestPolicy {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, v]) => v !== undefined));
+  policy = { ...DEFAULT_REQUEST_POLICY, ...defined };
+  return policy;
+}
+
+// --- Concurrency limiting ---
+
+let inFlight = 0;
+const waiting: Array<() => void> = [];
+
+async function acquireSlot(): Promise<void> {
+  if (inFlight < policy.maxConcurrent) {
+    inFlight++;
+    return;
+  }
+  await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) {
+    // Hand the slot straight to the next waiter
+    next();
+  } else {
+    inFlight--;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * How long to wait before the given retry (0-based), in milliseconds.
+ * Uses Retry-After when the server sent one, otherwise exponential backoff with jitter.
+ */
+function retryDelay(attempt: number, err: ConfluenceApiError): number {
+  if (err instanceof ConfluenceRateLimitError && err.retryAfter !== undefined) {
+    return Math.min(err.retryAfter * 1000, policy.maxDelayMs);
+  }
+  const exponential = policy.baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * policy.baseDelayMs;
+  return Math.min(exponential + jitter, policy.maxDelayMs);
+}
+
+/**
+ * Whether a failed attempt may be retried. POST is not idempotent, so it is only
+ * retried when Confluence explicitly rejected it unprocessed (429).
+ */
+function isRetryable(err: ConfluenceApiError, method: string): boolean {
+  if (err instanceof ConfluenceRateLimitError) return true;
+  if (method === "POST") return false;
+  return err instanceof ConfluenceServerError || err instanceof ConfluenceNetworkError;
+}
+
+/**
+ * Pass a response on with a body that keeps the request's slot until it has
+ * been read (or cancelled), and is aborted when no data arrives within the
+ * timeout. A stalled download fails with ConfluenceTimeoutError instead of
+ * hanging.
+ */
+function holdUntilRead(res: Response, controller: AbortController): Response {
+  if (!res.body) {
+    releaseSlot();
+    return res;
+  }
+
+  const reader = res.body.getReader();
+  let timer: NodeJS.Timeout | undefined;
+  let finished = false;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    clearTimeout(timer);
+    releaseSlot();
+  };
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+  };
+  restartTimer();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(stream) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          finish();
+          stream.close();
+          return;
+        }
+        restartTimer();
+        stream.enqueue(value);
+      } catch (err) {
+        finish();
+        stream.error(controller.signal.aborted ? new ConfluenceTimeoutError(policy.timeoutMs) : new ConfluenceNetworkError(err));
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+async function attempt(url: string | URL, init: RequestInit): Promise<Response> {
+  await acquireSlot();
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, signal: controller.signal });
+    if (!res.ok) throw await errorFromResponse(res);
+  } catch (err) {
+    releaseSlot();
+    if (err instanceof ConfluenceApiError) throw err;
+    if (controller.signal.aborted) throw new ConfluenceTimeoutError(policy.timeoutMs);
+    throw new ConfluenceNetworkError(err);
+  } finally {
+    clearTimeout(timer);
+  }
+  return holdUntilRead(res, controller);
+}
+
+/**
+ * Perform an HTTP request against the Confluence API.
+ * Network failures and non-OK responses are thrown as typed ConfluenceApiErrors
+ * once retries are exhausted. Callers must read or cancel the response body,
+ * which holds one of the concurrency slots until then.
+ */
+export async function request(url: string | URL, init: RequestInit): Promise<Response> {
+  const method = (init.method ?? "GET").toUpperCase();
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt(url, init);
+    } catch (err) {
+      const apiErr = err as ConfluenceApiError;
+      if (retry >= policy.maxRetries || !isRetryable(apiErr, method)) throw apiErr;
+      await sleep(retryDelay(retry, apiErr));
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { fetchSpaceByKey, findPagesByTitle, fetchUser, fetchAttachments, type ConfluenceClientConfig } from "./client.js";
+import { ConfluenceNotFoundError } from "./errors.js";
+import type { ConfluenceAttachment, ConfluencePageResponse } from "./types.js";
+
+/** A link to a page by title, optionally in another space */
+export type PageRef = { title: string; spaceKey?: string };
+
+/** A link to an attachment, on the current page unless pageTitle is set */
+export type AttachmentRef = { filename: string; pageTitle?: string; spaceKey?: string };
+
+export type LinkTargets = {
+  pages: PageRef[];
+  users: string[];           // Account IDs
+  attachments: AttachmentRef[];
+  images: AttachmentRef[];   // Image attachments shown with ac:image
+};
+
+/** Synchronous lookups used while rendering; undefined means unresolved. */
+export type LinkResolution = {
+  pageUrl(ref: PageRef): string | undefined;
+  userName(accountId: string): string | undefined;
+  attachmentUrl(ref: AttachmentRef): string | undefined;
+  /** Where an image attachment should load from; the bare filename is used without it */
+  imageUrl?(ref: AttachmentRef): string | undefined;
+};
+
+export type LinkResolver = {
+  /** Resolve the targets referenced from `page` */
+  resolve(page: ConfluencePageResponse, targets: LinkTargets): Promise<LinkResolution>;
+  /** True once any lookup failed for a reason other than "not found" */
+  readonly incomplete: boolean;
+};
+
+function pageKey(ref: PageRef, contextSpace: string | undefined): string {
+  return `${ref.spaceKey ?? `#${contextSpace ?? ""}`}\n${ref.title}`;
+}
+
+/**
+ * Create a resolver for one tool call. Lookups are cached for the lifetime
+ * of the resolver, so a tree of pages linking to each other only looks up
+ * each target once.
+ */
+export function createLinkResolver(cfg: ConfluenceClientConfig): LinkResolver {
+  const spaces = new Map<string, Promise<string | undefined>>();
+  const pages = new Map<string, Promise<ConfluencePageResponse | undefined>>();
+  const users = new Map<string, Promise<string | undefined>>();
+  const attachments = new Map<string, Promise<ConfluenceAttachment[]>>();
+  let incomplete = false;
+
+  /** Swallow lookup failures: an unresolved link must never fail the conversion. */
+  async function attempt<T>(lookup: () => Promise<T>, fallback: T): Promise<T> {
+    try {
+      return await lookup();
+    } catch (err) {
+      if (!(err instanceof ConfluenceNotFoundError)) incomplete = true;
+      return fallback;
+    }
+  }
+
+  function spaceId(key: string): Promise<string | undefined> {
+    if (!spaces.has(key)) spaces.set(key, attempt(async () => (await fetchSpaceByKey(cfg, key))?.id, undefined));
+    return spaces.get(key)!;
+  }
+
+  function findPage(ref: PageRef, context: ConfluencePageResponse): Promise<ConfluencePageResponse | undefined> {
+    const key = pageKey(ref, context.spaceId);
+    if (!pages.has(key)) {
+      pages.set(key, attempt(async () => {
+        const id = ref.spaceKey ? await spaceId(ref.spaceKey) : context.spaceId;
+        if (!id) return undefined;
+        return (await findPagesByTitle(cfg, id, ref.title))[0];
+      }, undefined));
+    }
+    return pages.get(key)!;
+  }
+
+  function userName(accountId: string): Promise<string | undefined> {
+    if (!users.has(accountId)) {
+      users.set(accountId, attempt(async () => {
+        const user = await fetchUser(cfg, accountId);
+        return user.displayName ?? user.publicName;
+      }, undefined));
+    }
+    return users.get(accountId)!;
+  }
+
+  function pageAttachments(pageId: string): Promise<ConfluenceAttachment[]> {
+    if (!attachments.has(pageId)) attachments.set(pageId, attempt(() => fetchAttachments(cfg, pageId), []));
+    return attachments.get(pageId)!;
+  }
+
+  return {
+    get incomplete() {
+      return incomplete;
+    },
+
+    async resolve(page, targets) {
+      const base = page._links?.base ?? "";
+      const absolute = (link: string | undefined) => (link ? `${base}${link}` : undefined);
+
+      const pageUrls = new Map<string, string | undefined>();
+      const names = new Map<string, string | undefined>();
+      const attachmentUrls = new Map<string, string | undefined>();
+
+      await Promise.all([
+        ...targets.pages.map(async ref => {
+          const target = await findPage(ref, page);
+          pageUrls.set(pageKey(ref, page.spaceId), absolute(target?._links?.webui));
+        }),
+        ...targets.users.map(async id => {
+          names.set(id, await userName(id));
+        }),
+        ...targets.attachments.map(async ref => {
+          const owner = ref.pageTitle ? await findPage({ title: ref.pageTitle, spaceKey: ref.spaceKey }, page) : page;
+          const list = owner ? await pageAttachments(owner.id) : [];
+          const match = list.find(a => a.title === ref.filename);
+          attachmentUrls.set(attachmentKey(ref), absolute(match?.downloadLink));
+        }),
+      ]);
+
+      return {
+        pageUrl: ref => pageUrls.get(pageKey(ref, page.spaceId)),
+        userName: id => names.get(id),
+        attachmentUrl: ref => attachmentUrls.get(attachmentKey(ref)),
+      };
+    },
+  };
+}
+
+/** Stable map key for an attachment reference. */
+export function attachmentKey(ref: AttachmentRef): string {
+  return `${ref.spaceKey ?? ""}\n${ref.pageTitle ?? ""}\n${ref.filename}`;
+}
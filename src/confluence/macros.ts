@@ -0,0 +1,125 @@
+import type { AnyNode, Element } from "domhandler";
+
+import { escapeAttr, escapeText, findElement, markerLine } from "./html.js";
+import type { LinkResolution } from "./links.js";
+
+/**
+ * Per-macro converters for `ac:structured-macro` elements.
+ *
+ * Each handler turns one parsed macro into HTML that Turndown can convert
+ * to markdown. Macros without a registered handler fall back to
+ * `renderUnknownMacro`, which keeps their body content and drops the wrapper.
+ */
+
+export type Macro = {
+  name: string;                        // Lower-cased ac:name
+  params: Record<string, string>;      // ac:parameter text by ac:name ("" for the default parameter)
+  richBody?: Element;                  // ac:rich-text-body
+  plainBody?: string;                  // ac:plain-text-body text (CDATA unwrapped)
+  element: Element;                    // The macro element itself
+};
+
+export type MacroContext = {
+  /** Render storage format nodes to normalized HTML */
+  render(nodes: AnyNode[]): string;
+  /** Resolved link targets, when link resolution ran before conversion */
+  links?: LinkResolution;
+};
+
+export type MacroHandler = (macro: Macro, ctx: MacroContext) => string;
+
+const handlers = new Map<string, MacroHandler>();
+
+/** Register (or replace) the converter for a macro name. */
+export function registerMacro(name: string, handler: MacroHandler): void {
+  handlers.set(name.toLowerCase(), handler);
+}
+
+/** Look up the converter for a macro name. */
+export function getMacroHandler(name: string): MacroHandler | undefined {
+  return handlers.get(name.toLowerCase());
+}
+
+/**
+ * Fallback for macros without a handler: keep rich body content,
+ * show plain bodies as preformatted text, and drop everything else.
+ */
+export function renderUnknownMacro(macro: Macro, ctx: MacroContext): string {
+  if (macro.richBody) return `<div>${ctx.render(macro.richBody.children)}</div>`;
+  if (macro.plainBody) return `<pre>${escapeText(macro.plainBody)}</pre>`;
+  return "";
+}
+
+// --- Built-in macros ---
+
+/** Colours of the status lozenge, shown as a coloured circle in the badge */
+export const STATUS_COLOURS: Record<string, string> = {
+  grey: "⚪",
+  red: "🔴",
+  yellow: "🟡",
+  green: "🟢",
+  blue: "🔵",
+  purple: "🟣",
+};
+
+const codeBlock: MacroHandler = (macro) => {
+  const language = macro.params.language?.trim();
+  const title = macro.params.title?.trim();
+  const cls = language ? ` class="language-${escapeAttr(language)}"` : "";
+  const titleAttr = title ? ` data-title="${escapeAttr(title)}"` : "";
+  return `<pre${titleAttr}><code${cls}>${escapeText(macro.plainBody ?? "")}</code></pre>`;
+};
+
+registerMacro("code", codeBlock);
+registerMacro("noformat", codeBlock);
+
+registerMacro("jira", (macro) => {
+  const key = macro.params.key?.trim();
+  return key ? `<code>${escapeText(key)}</code>` : "";
+});
+
+// Panels become blockquotes; typed ones are tagged so they render as `> [!TYPE]`
+for (const type of ["info", "note", "warning", "tip"]) {
+  registerMacro(type, (macro, ctx) => {
+    const body = macro.richBody ? ctx.render(macro.richBody.children) : "";
+    return `<blockquote data-admonition="${type.toUpperCase()}">${body}</blockquote>`;
+  });
+}
+
+registerMacro("panel", (macro, ctx) =>
+  `<blockquote>${macro.richBody ? ctx.render(macro.richBody.children) : ""}</blockquote>`);
+
+registerMacro("expand", (macro, ctx) => {
+  const title = macro.params.title?.trim() || "Click here to expand...";
+  const body = macro.richBody ? ctx.render(macro.richBody.children) : "";
+  return `<details><summary>${escapeText(title)}</summary>${body}</details>`;
+});
+
+// Status lozenge → inline badge such as `🔴 DEPRECATED`
+registerMacro("status", (macro) => {
+  const title = macro.params.title?.trim();
+  const colour = STATUS_COLOURS[(macro.params.colour ?? macro.params.color ?? "grey").toLowerCase()] ?? STATUS_COLOURS.grey;
+  return title ? `<code>${colour} ${escapeText(title)}</code>` : "";
+});
+
+registerMacro("anchor", (macro) => {
+  const name = (macro.params[""] ?? macro.params.name ?? "").trim();
+  return name ? `<a id="${escapeAttr(name)}"></a>` : "";
+});
+
+registerMacro("excerpt", (macro, ctx) => {
+  const body = macro.richBody ? ctx.render(macro.richBody.children) : "";
+  const hidden = macro.params.hidden === "true" ? " (hidden)" : "";
+  return `${markerLine(`Excerpt start${hidden}`)}${body}${markerLine("Excerpt end")}`;
+});
+
+registerMacro("excerpt-include", (macro) => {
+  // The default parameter holds an ac:link to the source page rather than text
+  const source = (findElement(macro.element, "ri:page")?.attribs["ri:content-title"] ?? macro.params[""] ?? "").trim();
+  return markerLine(source ? `Excerpt included from "${source}"` : "Excerpt included from another page");
+});
+
+// Navigation macros are generated by Confluence and have no meaningful content
+for (const name of ["toc", "children", "pagetree", "recently-updated"]) {
+  registerMacro(name, () => "");
+}
@@ -0,0 +1,254 @@
+import { Marked, type Tokens } from "marked";
+
+import { escapeAttr } from "./html.js";
+import { STATUS_COLOURS } from "./macros.js";
+
+/**
+ * Admonition markers (`> [!TYPE]`) and the Confluence panel macros they map to.
+ * The macro names round-trip exactly; GitHub's IMPORTANT and CAUTION alerts
+ * are accepted as aliases.
+ */
+const ADMONITION_MACROS: Record<string, string> = {
+  INFO: "info",
+  NOTE: "note",
+  TIP: "tip",
+  WARNING: "warning",
+  IMPORTANT: "note",
+  CAUTION: "warning",
+};
+
+/** Wrap text in a CDATA section, splitting any embedded terminator. */
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+/**
+ * The raw HTML forms storageToMarkdown writes for expand macros, anchors and
+ * line breaks. Any other `<` in the markdown is text: prose like `List<String>`
+ * would otherwise reach the storage format as an unclosed tag.
+ */
+const ALLOWED_HTML = /(<\/?details>|<\/?summary>|<a id="[^"<>]*">|<\/a>|<br\s*\/?>)|</gi;
+
+function escapeHtml(html: string): string {
+  return html.replace(ALLOWED_HTML, (match, allowed: string | undefined) => allowed ?? "&lt;");
+}
+
+/** Markdown image targets without a URL scheme are treated as page attachments. */
+function isAttachmentRef(href: string): boolean {
+  return !/^[a-z][a-z0-9+.-]*:/i.test(href) && !href.startsWith("//");
+}
+
+/** Percent-decode an attachment reference, keeping it as written when it is not valid encoding. */
+function decodeHref(href: string): string {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Create a marked instance whose renderer emits storage format constructs.
+ * A fresh instance per call keeps task IDs numbered from 1 in every document.
+ */
+function createMarked(): Marked {
+  let taskId = 0;
+
+  return new Marked({
+    gfm: true,
+    renderer: {
+      code({ text, lang }: Tokens.Code): string {
+        const info = (lang ?? "").trim();
+        const language = info.startsWith("title=") ? "" : info.split(/\s+/)[0];
+        const title = info.match(/\btitle="([^"]*)"/)?.[1];
+        const params = [
+          language ? `<ac:parameter ac:name="language">${escapeAttr(language)}</ac:parameter>` : "",
+          title ? `<ac:parameter ac:name="title">${escapeAttr(title)}</ac:parameter>` : "",
+        ].join("");
+        return `<ac:structured-macro ac:name="code">${params}<ac:plain-text-body>${cdata(text)}</ac:plain-text-body></ac:structured-macro>\n`;
+      },
+
+      codespan({ text }: Tokens.Codespan): string {
+        // `🔴 DEPRECATED` badges written by storageToMarkdown go back to status macros
+        const m = text.match(/^(\S+) (.+)$/);
+        const colour = m && Object.keys(STATUS_COLOURS).find(c => STATUS_COLOURS[c] === m[1]);
+        if (!m || !colour) return `<code>${text}</code>`;
+        return `<ac:structured-macro ac:name="status"><ac:parameter ac:name="colour">${colour[0].toUpperCase()}${colour.slice(1)}</ac:parameter><ac:parameter ac:name="title">${m[2]}</ac:parameter></ac:structured-macro>`;
+      },
+
+      blockquote({ tokens }: Tokens.Blockquote): string {
+        const body = this.parser.parse(tokens);
+        const m = body.match(/^<p>\[!([A-Za-z]+)\][ \t]*(?:\n|(?=<\/p>))/);
+        const macro = m ? ADMONITION_MACROS[m[1].toUpperCase()] : undefined;
+        if (!m || !macro) return `<blockquote>\n${body}</blockquote>\n`;
+
+        const inner = `<p>${body.slice(m[0].length)}`.replace(/^<p>\s*<\/p>\n?/, "");
+        return `<ac:structured-macro ac:name="${macro}"><ac:rich-text-body>${inner}</ac:rich-text-body></ac:structured-macro>\n`;
+      },
+
+      list(token: Tokens.List): string | false {
+        if (token.items.length === 0 || !token.items.every(item => item.task)) return false;
+
+        const tasks = token.items.map(item => {
+          const status = item.checked ? "complete" : "incomplete";
+          const body = this.parser.parse(item.tokens, !!item.loose).trim();
+          return `<ac:task><ac:task-id>${++taskId}</ac:task-id><ac:task-status>${status}</ac:task-status><ac:task-body>${body}</ac:task-body></ac:task>`;
+        });
+        return `<ac:task-list>${tasks.join("")}</ac:task-list>\n`;
+      },
+
+      html({ text, block }: Tokens.HTML | Tokens.Tag): string {
+        const escaped = escapeHtml(text);
+        // A block of HTML that turned out to be text needs a paragraph around it
+        return block && escaped !== text ? `<p>${escaped.trim()}</p>\n` : escaped;
+      },
+
+      image({ href, text, title }: Tokens.Image): string {
+        const alt = text ? ` ac:alt="${escapeAttr(text)}"` : "";
+        const caption = title ? ` ac:title="${escapeAttr(title)}"` : "";
+        const target = isAttachmentRef(href)
+          ? `<ri:attachment ri:filename="${escapeAttr(decodeHref(href))}" />`
+          : `<ri:url ri:value="${escapeAttr(href)}" />`;
+        return `<ac:image${alt}${caption}>${target}</ac:image>`;
+      },
+    },
+  });
+}
+
+/**
+ * Close HTML void elements so the output is well-formed XHTML,
+ * which the storage format requires.
+ */
+function closeVoidElements(html: string): string {
+  return html.replace(/<(br|hr|img|input|col)\b([^>]*?)\s*\/?>/gi, (_match, tag, attrs) => `<${tag}${attrs} />`);
+}
+
+/**
+ * Rewrite marked's table markup into the shape Confluence stores:
+ * a single `<tbody>` whose first row holds the `<th>` header cells,
+ * with column alignment expressed as inline styles.
+ */
+function normalizeTables(html: string): string {
+  let out = html.replace(/<\/?(?:thead|tbody)>\n?/gi, "");
+  out = out.replace(/<table>\n?/gi, "<table><tbody>");
+  out = out.replace(/<\/table>/gi, "</tbody></table>");
+  out = out.replace(/<(th|td) align="(left|center|right)">/gi,
+    (_match, tag, align) => `<${tag} style="text-align: ${align};">`);
+  return out;
+}
+
+/**
+ * Turn the raw HTML that storageToMarkdown emits for expand and anchor
+ * macros back into the macros themselves.
+ */
+function restoreHtmlMacros(html: string): string {
+  let out = html.replace(/<details>\s*<summary>([\s\S]*?)<\/summary>/gi,
+    (_match, title) => `<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">${title.trim()}</ac:parameter><ac:rich-text-body>`);
+  out = out.replace(/<\/details>/gi, "</ac:rich-text-body></ac:structured-macro>");
+  out = out.replace(/<a id="([^"]*)"><\/a>/gi,
+    (_match, id) => `<ac:structured-macro ac:name="anchor"><ac:parameter ac:name="">${id}</ac:parameter></ac:structured-macro>`);
+  return out;
+}
+
+/** Layout section types for a given number of columns; wider layouts have no equal-width type */
+const LAYOUT_TYPES: Record<number, string> = { 1: "single", 2: "two_equal", 3: "three_equal" };
+
+/** A marker paragraph written by `markerLine`, as marked renders it back */
+const MARKER = /<p><em>— ([^<]*?) —<\/em><\/p>/g;
+
+function layoutSection(type: string, cells: string[]): string {
+  return `<ac:layout-section ac:type="${type}">${cells.map(c => `<ac:layout-cell>${c.trim()}</ac:layout-cell>`).join("")}</ac:layout-section>`;
+}
+
+/**
+ * Turn "— Column 1 of 2 —" … "— End of columns —" marker runs back into a
+ * page layout. A page with a layout must keep all of its content in layout
+ * sections, so the content around the columns goes into single-column ones.
+ * Column widths other than equal are not recorded in the markdown.
+ */
+function restoreLayouts(xml: string): string {
+  const group = /<p><em>— Column 1 of ([23]) —<\/em><\/p>\n?([\s\S]*?)<p><em>— End of columns —<\/em><\/p>\n?/g;
+  const sections: string[] = [];
+  let last = 0;
+
+  for (const m of xml.matchAll(group)) {
+    const count = Number(m[1]);
+    const cells = m[2].split(/<p><em>— Column \d+ of \d+ —<\/em><\/p>\n?/);
+    if (cells.length !== count) continue;
+    const before = xml.slice(last, m.index).trim();
+    if (before) sections.push(layoutSection(LAYOUT_TYPES[1], [before]));
+    sections.push(layoutSection(LAYOUT_TYPES[count], cells));
+    last = m.index + m[0].length;
+  }
+
+  if (sections.length === 0) return xml;
+  const after = xml.slice(last).trim();
+  if (after) sections.push(layoutSection(LAYOUT_TYPES[1], [after]));
+  return `<ac:layout>${sections.join("")}</ac:layout>`;
+}
+
+/**
+ * Turn the excerpt markers written by storageToMarkdown back into `excerpt`
+ * and `excerpt-include` macros.
+ */
+function restoreExcerpts(xml: string): string {
+  let out = xml.replace(
+    /<p><em>— Excerpt start( \(hidden\))? —<\/em><\/p>\n?([\s\S]*?)<p><em>— Excerpt end —<\/em><\/p>/g,
+    (_match, hidden, body) => {
+      const param = hidden ? `<ac:parameter ac:name="hidden">true</ac:parameter>` : "";
+      return `<ac:structured-macro ac:name="excerpt">${param}<ac:rich-text-body>${body.trim()}</ac:rich-text-body></ac:structured-macro>`;
+    });
+  out = out.replace(
+    /<p><em>— Excerpt included from &quot;([^<]*?)&quot; —<\/em><\/p>/g,
+    (_match, title) => `<ac:structured-macro ac:name="excerpt-include"><ac:parameter ac:name=""><ac:link><ri:page ri:content-title="${title}" /></ac:link></ac:parameter></ac:structured-macro>`);
+  return out;
+}
+
+/**
+ * Refuse markers that could not be turned back into Confluence markup, rather
+ * than publishing them as literal paragraphs.
+ *
+ * @throws Error naming the first such marker
+ */
+function assertNoMarkers(xml: string): void {
+  const outsideCode = xml.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, "");
+  for (const m of outsideCode.matchAll(MARKER)) {
+    if (/^(Column \d+ of \d+|End of columns|Excerpt (start|end)\b|Excerpt included from\b)/.test(m[1])) {
+      throw new Error(`The markdown contains the marker "— ${m[1]} —", which cannot be converted back into the Confluence layout or excerpt it stands for. Keep the markers of a layout or excerpt together and unchanged, or remove them (and edit that part of the page in Confluence).`);
+    }
+  }
+}
+
+/** Apply a rewrite to everything except CDATA sections (code macro bodies). */
+function outsideCdata(xml: string, rewrite: (segment: string) => string): string {
+  return xml
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part, i) => (i % 2 === 1 ? part : rewrite(part)))
+    .join("");
+}
+
+/**
+ * Convert GitHub-flavored markdown to Confluence storage format.
+ * This is the inverse of `storageToMarkdown`:
+ *
+ * - Fenced code blocks become `code` macros with `language` and `title` parameters
+ * - `🔴 TITLE`-style badges become status macros; `<details>` blocks become expand macros
+ * - `> [!INFO]`, `> [!NOTE]`, `> [!TIP]` and `> [!WARNING]` blockquotes become panel macros
+ * - Task lists become `ac:task-list`
+ * - Relative image references become `ac:image` attachments; absolute URLs use `ri:url`
+ * - GFM tables become storage tables with a header row
+ * - Column and excerpt markers become page layouts and excerpt macros
+ * - Other raw HTML is escaped and publishes as text
+ *
+ * @param markdown - Markdown source
+ * @returns Storage format XHTML suitable for the v2 pages API
+ * @throws Error if the markdown holds column or excerpt markers that do not form a complete layout or excerpt
+ */
+export function markdownToStorage(markdown: string): string {
+  const html = createMarked().parse(markdown, { async: false }) as string;
+  const storage = outsideCdata(html, segment => restoreHtmlMacros(normalizeTables(closeVoidElements(segment))));
+  // Markers may enclose code macros, so these work across CDATA sections
+  const restored = restoreLayouts(restoreExcerpts(storage)).trim();
+  assertNoMarkers(restored);
+  return restored;
+}
@@ -0,0 +1,296 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as http from "node:http";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { request } from "./http.js";
+import { ConfluenceApiError, ConfluenceAuthRequiredError } from "./errors.js";
+
+/**
+ * OAuth 2.0 (3LO) for Atlassian Cloud: authorization code flow with PKCE,
+ * a loopback redirect, tokens stored on disk (owner-only permissions) and
+ * refreshed shortly before they expire.
+ *
+ * @see https://developer.atlassian.com/cloud/confluence/oauth-2-3lo-apps/
+ */
+
+const AUTHORIZE_URL = "https://auth.atlassian.com/authorize";
+const TOKEN_URL = "https://auth.atlassian.com/oauth/token";
+const RESOURCES_URL = "https://api.atlassian.com/oauth/token/accessible-resources";
+
+/** Refresh this long before the access token expires */
+const REFRESH_MARGIN_MS = 60_000;
+/** Give up waiting for the browser redirect after this long */
+const LOGIN_TIMEOUT_MS = 5 * 60_000;
+
+export const DEFAULT_OAUTH_SCOPES = [
+  "read:page:confluence",
+  "read:space:confluence",
+  "read:attachment:confluence",
+  "read:content-details:confluence",
+  "readonly:content.attachment:confluence",
+  "read:user:confluence",
+  "search:confluence",
+  "write:page:confluence",
+  "offline_access",
+];
+
+export const DEFAULT_REDIRECT_PORT = 8976;
+
+export type OAuthSettings = {
+  clientId: string;
+  clientSecret?: string;    // Required unless the app is registered for PKCE-only
+  scopes: string[];
+  redirectPort: number;     // Loopback port; the app's callback URL must be http://127.0.0.1:<port>/callback
+  tokenFile: string;        // Where tokens are persisted between runs
+};
+
+type StoredTokens = {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;        // Epoch milliseconds
+  scope?: string;
+};
+
+type TokenResponse = {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  scope?: string;
+};
+
+export type AccessibleResource = {
+  id: string;
+  url: string;
+  name?: string;
+  scopes?: string[];
+};
+
+/**
+ * Fill in defaults for unspecified OAuth settings. Tokens are stored per site
+ * and client so several sites can be signed in at once.
+ */
+export function makeOAuthSettings(
+  input: { clientId: string; clientSecret?: string; scopes?: string[]; redirectPort?: number; tokenFile?: string },
+  site = "default"
+): OAuthSettings {
+  return {
+    clientId: input.clientId,
+    clientSecret: input.clientSecret,
+    scopes: input.scopes?.length ? input.scopes : DEFAULT_OAUTH_SCOPES,
+    redirectPort: input.redirectPort ?? DEFAULT_REDIRECT_PORT,
+    tokenFile: input.tokenFile ?? defaultTokenFile(input.clientId, site),
+  };
+}
+
+/** Default token file for a client, under $XDG_CONFIG_HOME (or ~/.config). */
+export function defaultTokenFile(clientId: string, site = "default"): string {
+  const xdg = process.env.XDG_CONFIG_HOME;
+  const dir = path.join(xdg && xdg.trim() ? xdg : path.join(os.homedir(), ".config"), "confluence-reader-mcp");
+  const name = `${site}-${clientId}`.replace(/[^A-Za-z0-9._-]/g, "_");
+  return path.join(dir, `oauth-${name}.json`);
+}
+
+// Tokens loaded from disk with the file's modification time, and in-flight refreshes, keyed by token file
+const tokenCache = new Map<string, { tokens: StoredTokens; mtimeMs: number }>();
+const refreshes = new Map<string, Promise<StoredTokens>>();
+
+/**
+ * Read stored tokens, loading them again whenever the file has changed, so
+ * a `login` run while the server is up takes effect without a restart.
+ */
+async function readTokens(file: string): Promise<StoredTokens | undefined> {
+  try {
+    const { mtimeMs } = await fs.stat(file);
+    const cached = tokenCache.get(file);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.tokens;
+    const tokens = JSON.parse(await fs.readFile(file, "utf8")) as StoredTokens;
+    tokenCache.set(file, { tokens, mtimeMs });
+    return tokens;
+  } catch {
+    tokenCache.delete(file);
+    return undefined;
+  }
+}
+
+/** Write tokens readable by the current user only */
+async function writeTokens(file: string, tokens: StoredTokens): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+  const tmp = `${file}.${crypto.randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tmp, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+    await fs.rename(tmp, file);
+  } catch (err) {
+    await fs.rm(tmp, { force: true });
+    throw err;
+  }
+  tokenCache.set(file, { tokens, mtimeMs: (await fs.stat(file)).mtimeMs });
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function redirectUri(settings: OAuthSettings): string {
+  return `http://127.0.0.1:${settings.redirectPort}/callback`;
+}
+
+/**
+ * POST to the token endpoint. Rejected grants (expired or revoked refresh
+ * tokens, reused codes) become ConfluenceAuthRequiredError.
+ */
+async function requestTokens(body: Record<string, string | undefined>): Promise<StoredTokens> {
+  let res: Response;
+  try {
+    res = await request(TOKEN_URL, {
+      method: "POST",
+      headers: { Accept: "application/json", "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  } catch (err) {
+    if (err instanceof ConfluenceApiError && err.status !== undefined && err.status >= 400 && err.status < 500 && err.status !== 429) {
+      throw new ConfluenceAuthRequiredError(err.message);
+    }
+    throw err;
+  }
+
+  const data = (await res.json()) as TokenResponse;
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresAt: Date.now() + data.expires_in * 1000,
+    scope: data.scope,
+  };
+}
+
+/**
+ * Wait for the browser to be redirected back to the loopback server.
+ *
+ * @returns The authorization code
+ */
+function waitForCallback(settings: OAuthSettings, state: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const finish = (err: Error | undefined, code?: string) => {
+      clearTimeout(timer);
+      server.close();
+      if (err) reject(err);
+      else resolve(code!);
+    };
+
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? "/", redirectUri(settings));
+      if (url.pathname !== "/callback") {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const error = url.searchParams.get("error");
+      const code = url.searchParams.get("code");
+      const ok = !error && code && url.searchParams.get("state") === state;
+      res.writeHead(ok ? 200 : 400, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end(ok ? "Signed in to Confluence. You can close this window." : "Sign-in failed. Check the terminal for details.");
+
+      if (error) finish(new Error(`Authorization was denied: ${url.searchParams.get("error_description") ?? error}`));
+      else if (!ok) finish(new Error("Authorization response did not match this login attempt (state mismatch or missing code)."));
+      else finish(undefined, code);
+    });
+
+    const timer = setTimeout(() => finish(new Error("Timed out waiting for the browser sign-in to complete.")), LOGIN_TIMEOUT_MS);
+    server.on("error", err => finish(err));
+    server.listen(settings.redirectPort, "127.0.0.1");
+  });
+}
+
+/**
+ * Run the interactive authorization code flow and store the resulting tokens.
+ * The authorization URL is passed to `prompt` so the caller can show it to the user.
+ */
+export async function login(settings: OAuthSettings, prompt: (url: string) => void): Promise<void> {
+  const verifier = base64Url(crypto.randomBytes(32));
+  const challenge = base64Url(crypto.createHash("sha256").update(verifier).digest());
+  const state = base64Url(crypto.randomBytes(16));
+
+  const url = new URL(AUTHORIZE_URL);
+  url.searchParams.set("audience", "api.atlassian.com");
+  url.searchParams.set("client_id", settings.clientId);
+  url.searchParams.set("scope", settings.scopes.join(" "));
+  url.searchParams.set("redirect_uri", redirectUri(settings));
+  url.searchParams.set("state", state);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("prompt", "consent");
+  url.searchParams.set("code_challenge", challenge);
+  url.searchParams.set("code_challenge_method", "S256");
+
+  const callback = waitForCallback(settings, state);
+  prompt(url.toString());
+  const code = await callback;
+
+  const tokens = await requestTokens({
+    grant_type: "authorization_code",
+    client_id: settings.clientId,
+    client_secret: settings.clientSecret,
+    code,
+    redirect_uri: redirectUri(settings),
+    code_verifier: verifier,
+  });
+  await writeTokens(settings.tokenFile, tokens);
+}
+
+async function refresh(settings: OAuthSettings, tokens: StoredTokens): Promise<StoredTokens> {
+  if (!tokens.refreshToken) {
+    throw new ConfluenceAuthRequiredError("the access token expired and no refresh token is stored (is offline_access among the scopes?)");
+  }
+  const next = await requestTokens({
+    grant_type: "refresh_token",
+    client_id: settings.clientId,
+    client_secret: settings.clientSecret,
+    refresh_token: tokens.refreshToken,
+  });
+  // Refresh tokens rotate, but keep the old one if none was returned
+  const stored = { ...next, refreshToken: next.refreshToken ?? tokens.refreshToken };
+  await writeTokens(settings.tokenFile, stored);
+  return stored;
+}
+
+/**
+ * Return a valid access token, refreshing it first if it is about to expire.
+ * Concurrent callers share a single refresh.
+ *
+ * @throws ConfluenceAuthRequiredError if there are no stored tokens or the refresh was rejected
+ */
+export async function getAccessToken(settings: OAuthSettings): Promise<string> {
+  const tokens = await readTokens(settings.tokenFile);
+  if (!tokens) throw new ConfluenceAuthRequiredError(`no stored tokens in ${settings.tokenFile}`);
+  if (tokens.expiresAt - Date.now() > REFRESH_MARGIN_MS) return tokens.accessToken;
+
+  let pending = refreshes.get(settings.tokenFile);
+  if (!pending) {
+    pending = refresh(settings, tokens).finally(() => refreshes.delete(settings.tokenFile));
+    refreshes.set(settings.tokenFile, pending);
+  }
+  return (await pending).accessToken;
+}
+
+/**
+ * Find the cloud ID of the Confluence site the token was granted for.
+ * When the grant covers several sites, `siteUrl` picks one by its URL.
+ *
+ * @throws Error if no site, or more than one without a matching `siteUrl`, is accessible
+ */
+export async function discoverCloudId(settings: OAuthSettings, siteUrl?: string): Promise<string> {
+  const res = await request(RESOURCES_URL, {
+    method: "GET",
+    headers: { Authorization: `Bearer ${await getAccessToken(settings)}`, Accept: "application/json" },
+  });
+  const resources = (await res.json()) as AccessibleResource[];
+
+  const host = siteUrl ? new URL(siteUrl).host : undefined;
+  const candidates = host ? resources.filter(r => new URL(r.url).host === host) : resources;
+  if (candidates.length === 1) return candidates[0].id;
+
+  const available = resources.map(r => r.url).join(", ") || "none";
+  throw new Error(candidates.length === 0
+    ? `The OAuth grant does not cover ${siteUrl ?? "any Confluence site"} (accessible sites: ${available}).`
+    : `The OAuth grant covers several sites (${available}); set the base URL to choose one.`);
+}
@@ -0,0 +1,140 @@
+/**
+ * Headings and block structure of converted page markdown, for reading very
+ * large pages in pieces.
+ *
+ * Offsets are character offsets into the page markdown. Pieces always start
+ * and end on block boundaries (a heading, or a line after a blank line), so a
+ * table or fenced code block is never cut in half.
+ */
+
+export type OutlineHeading = {
+  level: number;     // 1-6
+  title: string;
+  path: string[];    // Titles of the enclosing headings, then this one
+  offset: number;    // Start of the heading line
+  end: number;       // Start of the next heading at the same or a higher level, or the end of the page
+};
+
+export type MarkdownSlice = {
+  text: string;
+  start: number;
+  end: number;
+  total: number;
+  oversized: boolean;  // A single block longer than maxChars was returned whole
+};
+
+type Line = { start: number; text: string; inFence: boolean };
+
+/** Split into lines, marking those inside (or closing) fenced code blocks. */
+function scanLines(markdown: string): Line[] {
+  const lines: Line[] = [];
+  let fence: string | undefined;
+  let start = 0;
+
+  for (const text of markdown.split("\n")) {
+    const marker = text.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+    if (fence === undefined && marker) {
+      fence = marker;
+      lines.push({ start, text, inFence: false });
+    } else if (fence !== undefined) {
+      lines.push({ start, text, inFence: true });
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length && text.trim() === marker) fence = undefined;
+    } else {
+      lines.push({ start, text, inFence: false });
+    }
+    start += text.length + 1;
+  }
+  return lines;
+}
+
+/**
+ * List the ATX headings of a markdown document (ignoring `#` lines inside
+ * code blocks), with their nesting and character ranges.
+ */
+export function parseOutline(markdown: string): OutlineHeading[] {
+  const headings: OutlineHeading[] = [];
+  const stack: OutlineHeading[] = [];
+
+  for (const line of scanLines(markdown)) {
+    if (line.inFence) continue;
+    const m = line.text.match(/^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (!m) continue;
+
+    const level = m[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop()!.end = line.start;
+
+    const heading: OutlineHeading = {
+      level,
+      title: m[2],
+      path: [...stack.map(h => h.title), m[2]],
+      offset: line.start,
+      end: markdown.length,
+    };
+    headings.push(heading);
+    stack.push(heading);
+  }
+  return headings;
+}
+
+/**
+ * Offsets where the markdown may be split: the start, every heading, every
+ * line that follows a blank line outside a code block, and the end.
+ */
+export function blockBoundaries(markdown: string): number[] {
+  const boundaries = [0];
+  let previousBlank = false;
+
+  for (const line of scanLines(markdown)) {
+    const blank = line.text.trim() === "";
+    const heading = /^ {0,3}#{1,6}\s/.test(line.text);
+    if (!line.inFence && line.start > 0 && !blank && (previousBlank || heading)) boundaries.push(line.start);
+    // A fence's closing line counts as inside it, so the line after a code block needs its own blank line
+    previousBlank = blank && !line.inFence;
+  }
+
+  if (boundaries[boundaries.length - 1] !== markdown.length) boundaries.push(markdown.length);
+  return boundaries;
+}
+
+/**
+ * Take up to `maxChars` characters starting at `offset`, widened or narrowed
+ * to block boundaries. An offset inside a block moves back to its start.
+ * A block longer than `maxChars` is returned whole rather than cut.
+ */
+export function sliceMarkdown(markdown: string, offset: number, maxChars?: number): MarkdownSlice {
+  const boundaries = blockBoundaries(markdown);
+  const total = markdown.length;
+  const start = [...boundaries].reverse().find(b => b <= Math.min(offset, total)) ?? 0;
+
+  let end = total;
+  let oversized = false;
+  if (maxChars !== undefined && total - start > maxChars) {
+    const fitting = boundaries.filter(b => b > start && b <= start + maxChars);
+    if (fitting.length > 0) {
+      end = fitting[fitting.length - 1];
+    } else {
+      end = boundaries.find(b => b > start) ?? total;
+      oversized = true;
+    }
+  }
+
+  return { text: markdown.slice(start, end), start, end, total, oversized };
+}
+
+/**
+ * Find a section by its heading path, e.g. "Design > API > Errors".
+ * Titles are compared case-insensitively; the path may skip levels, but its
+ * headings must be nested in the given order.
+ */
+export function findSection(headings: OutlineHeading[], sectionPath: string): OutlineHeading | undefined {
+  const wanted = sectionPath.split(">").map(s => s.trim().toLowerCase()).filter(Boolean);
+  if (wanted.length === 0) return undefined;
+
+  return headings.find(h => {
+    const titles = h.path.map(t => t.toLowerCase());
+    if (titles[titles.length - 1] !== wanted[wanted.length - 1]) return false;
+    let i = 0;
+    for (const t of titles.slice(0, -1)) if (i < wanted.length - 1 && t === wanted[i]) i++;
+    return i === wanted.length - 1;
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * What publishing markdown would remove from a page. Markdown has no
+ * equivalent for many storage format constructs (navigation macros, Jira
+ * issues, page links, user mentions), so replacing a page's storage with
+ * converted markdown silently drops or flattens them.
+ */
+
+export type LostElement = {
+  element: string;     // e.g. "macro toc", "ri:page link", "ac:emoticon"
+  current: number;     // Occurrences in the page now
+  afterWrite: number;  // Occurrences in the storage that would be written
+};
+
+/** Count macros by name, resource identifiers by type, and emoticons. */
+function countElements(storage: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (key: string) => counts.set(key, (counts.get(key) ?? 0) + 1);
+  // Code macro bodies are plain text and may contain markup examples
+  const markup = storage.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, "");
+
+  for (const m of markup.matchAll(/<ac:(?:structured-)?macro\b[^>]*\bac:name="([^"]*)"/g)) add(`macro ${m[1]}`);
+  for (const m of markup.matchAll(/<ri:([a-z-]+)\b/g)) add(`ri:${m[1]} link`);
+  const emoticons = markup.match(/<ac:emoticon\b/g)?.length ?? 0;
+  if (emoticons > 0) counts.set("ac:emoticon", emoticons);
+  return counts;
+}
+
+/**
+ * List the macros, resource links and emoticons that occur fewer times in
+ * `next` than in `current`.
+ */
+export function findLostElements(current: string, next: string): LostElement[] {
+  const before = countElements(current);
+  const after = countElements(next);
+  return [...before]
+    .filter(([element, count]) => (after.get(element) ?? 0) < count)
+    .map(([element, count]) => ({ element, current: count, afterWrite: after.get(element) ?? 0 }));
+}
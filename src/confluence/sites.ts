@@ -0,0 +1,232 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+
+import type { ConfluenceClientConfig, ConfluenceDeployment } from "./client.js";
+import { makeOAuthSettings } from "./oauth.js";
+
+/**
+ * Named Confluence sites, so one server can talk to several instances.
+ *
+ * Sites come either from a profiles file (CONFLUENCE_PROFILES) or, when there
+ * is none, from the single-site CONFLUENCE_* env vars. Each tool call is routed
+ * to a site by an explicit name or by matching the host of the page URL.
+ */
+
+export type SiteProfile = ConfluenceClientConfig & {
+  name: string;
+  hosts: string[];  // Lower-case hostnames routed to this site (includes the baseUrl host)
+};
+
+/** One entry of the profiles file, before validation */
+type SiteProfileInput = {
+  token?: string;
+  tokenEnv?: string;   // Read the token from this env var instead of storing it in the file
+  email?: string;
+  cloudId?: string;
+  baseUrl?: string;
+  deployment?: string;
+  hosts?: string[];
+  oauth?: {
+    clientId?: string;
+    clientSecret?: string;
+    clientSecretEnv?: string;
+    scopes?: string[];
+    redirectPort?: number;
+    tokenFile?: string;
+  };
+};
+
+type ProfilesFile = {
+  default?: string;
+  sites?: Record<string, SiteProfileInput>;
+};
+
+let sites: SiteProfile[] = [];
+let defaultSiteName: string | undefined;
+
+/** Whether a string parses as an absolute URL (URL.canParse needs Node 19.9+) */
+export function isAbsoluteUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Map a deployment setting to a deployment mode; undefined if not recognised.
+ * A missing value means Cloud.
+ */
+export function parseDeployment(value: string | undefined): ConfluenceDeployment | undefined {
+  const v = value?.trim().toLowerCase() || "cloud";
+  if (v === "cloud") return "cloud";
+  if (["server", "datacenter", "data-center", "dc"].includes(v)) return "server";
+  return undefined;
+}
+
+/** Hostnames a site answers to: its explicit aliases plus the baseUrl host. */
+function siteHosts(baseUrl: string | undefined, hosts: string[] = []): string[] {
+  const all = hosts.map(h => h.trim().toLowerCase()).filter(Boolean);
+  if (baseUrl && isAbsoluteUrl(baseUrl)) all.push(new URL(baseUrl).hostname.toLowerCase());
+  return [...new Set(all)];
+}
+
+/**
+ * Build a site profile from a name and connection settings.
+ */
+export function makeSite(name: string, cfg: ConfluenceClientConfig, hosts: string[] = []): SiteProfile {
+  return { ...cfg, name, hosts: siteHosts(cfg.baseUrl, hosts) };
+}
+
+/**
+ * Read a profiles file. Problems with individual profiles are left to
+ * `validateSite`; only an unreadable or malformed file throws.
+ *
+ * @throws Error if the file cannot be read or is not a profiles object
+ */
+export function loadSiteProfiles(file: string): { sites: SiteProfile[]; defaultSite?: string } {
+  let data: ProfilesFile;
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf8")) as ProfilesFile;
+  } catch (err) {
+    throw new Error(`Could not read profiles file ${file}: ${(err as Error).message}`);
+  }
+  if (!data || typeof data.sites !== "object" || data.sites === null || Array.isArray(data.sites)) {
+    throw new Error(`Profiles file ${file} must contain a "sites" object mapping site names to settings`);
+  }
+
+  const loaded = Object.entries(data.sites).map(([name, input]) => makeSite(name, {
+    token: (input.tokenEnv ? process.env[input.tokenEnv]?.trim() : input.token) ?? "",
+    email: input.email,
+    cloudId: input.cloudId,
+    baseUrl: input.baseUrl,
+    // Unrecognised values are kept as-is so validateSite can report them
+    deployment: parseDeployment(input.deployment) ?? (input.deployment as ConfluenceDeployment),
+    oauth: input.oauth ? makeOAuthSettings({
+      ...input.oauth,
+      clientId: input.oauth.clientId ?? "",
+      clientSecret: input.oauth.clientSecretEnv ? process.env[input.oauth.clientSecretEnv]?.trim() : input.oauth.clientSecret,
+    }, name) : undefined,
+  }, input.hosts));
+
+  return { sites: loaded, defaultSite: data.default };
+}
+
+/**
+ * List the problems with a site's settings; empty when it is usable.
+ *
+ * @param options.clientCredentials - Clients supply the credentials, so the site needs none of its own
+ */
+export function validateSite(site: SiteProfile, options: { clientCredentials?: boolean } = {}): string[] {
+  const problems: string[] = [];
+  const server = site.deployment === "server";
+
+  if (site.deployment !== "cloud" && !server) {
+    problems.push(`deployment must be "cloud" or "server" (got "${site.deployment}")`);
+  }
+  if (options.clientCredentials && !site.oauth) {
+    if (server && !site.baseUrl) problems.push("baseUrl is required for Server / Data Center, including any context path");
+    if (!server && !site.cloudId && !site.baseUrl) problems.push("either cloudId or baseUrl must be set");
+    if (site.baseUrl && !isAbsoluteUrl(site.baseUrl)) problems.push(`baseUrl must be a full URL (got "${site.baseUrl}")`);
+    return problems;
+  }
+  if (site.oauth) {
+    if (server) problems.push("OAuth is only supported for Cloud sites");
+    if (!site.oauth.clientId) problems.push("oauth.clientId is required");
+    if (!Number.isInteger(site.oauth.redirectPort) || site.oauth.redirectPort < 1 || site.oauth.redirectPort > 65535) {
+      problems.push(`oauth.redirectPort must be a port number (got "${site.oauth.redirectPort}")`);
+    }
+    if (site.baseUrl && !isAbsoluteUrl(site.baseUrl)) problems.push(`baseUrl must be a full URL (got "${site.baseUrl}")`);
+    return problems;
+  }
+  if (!site.token) {
+    problems.push(server ? "token is required (a personal access token)" : "token is required (a scoped API token)");
+  }
+  if (!server && !site.email) {
+    problems.push("email is required for Cloud sites");
+  }
+  if (server && !site.baseUrl) {
+    problems.push("baseUrl is required for Server / Data Center, including any context path");
+  }
+  if (!server && !site.cloudId && !site.baseUrl) {
+    problems.push("either cloudId or baseUrl must be set");
+  }
+  if (site.baseUrl && !isAbsoluteUrl(site.baseUrl)) {
+    problems.push(`baseUrl must be a full URL (got "${site.baseUrl}")`);
+  }
+  return problems;
+}
+
+/**
+ * Replace the configured sites. The default site is used when a call names
+ * no site and its URL (if any) matches no site's host.
+ */
+export function configureSites(list: SiteProfile[], defaultSite?: string): void {
+  sites = list;
+  defaultSiteName = defaultSite ?? (list.length === 1 ? list[0].name : undefined);
+}
+
+/** The configured sites, in configuration order */
+export function listSites(): SiteProfile[] {
+  return sites;
+}
+
+/**
+ * Pick the site for a tool call: by explicit name, else by the URL host,
+ * else the default site.
+ *
+ * @throws Error if the named site does not exist or no site can be chosen
+ */
+export function selectSite(options: { site?: string; url?: string } = {}): SiteProfile {
+  const names = () => sites.map(s => s.name).join(", ");
+
+  if (options.site) {
+    const named = sites.find(s => s.name === options.site);
+    if (!named) throw new Error(`Unknown site "${options.site}". Configured sites: ${names()}`);
+    return named;
+  }
+
+  if (options.url && isAbsoluteUrl(options.url)) {
+    const u = new URL(options.url);
+    const matches = sites.filter(s => s.hosts.includes(u.hostname.toLowerCase()));
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) {
+      // Several sites on one host (different context paths): prefer the longest matching path
+      const byPath = matches
+        .filter(s => s.baseUrl && u.pathname.startsWith(new URL(s.baseUrl).pathname.replace(/\/+$/, "")))
+        .sort((a, b) => new URL(b.baseUrl!).pathname.length - new URL(a.baseUrl!).pathname.length);
+      return byPath[0] ?? matches[0];
+    }
+  }
+
+  const fallback = sites.find(s => s.name === defaultSiteName);
+  if (fallback) return fallback;
+
+  throw new Error(options.url
+    ? `No site is configured for ${options.url}. Pass "site" (one of: ${names()}) or add the host to a profile's "hosts".`
+    : `Several sites are configured; pass "site" (one of: ${names()}).`);
+}
+
+/** Confluence credentials supplied by one client session rather than the server's configuration */
+export type SessionCredentials = {
+  token: string;     // API token, personal access token, or OAuth access token (sent as Bearer without an email)
+  email?: string;    // Atlassian account email, for Cloud API tokens
+};
+
+/**
+ * A site with a session's credentials in place of the configured ones. The
+ * site's address still comes from the server's configuration, so clients
+ * cannot point the server at other hosts.
+ */
+export function withCredentials(site: SiteProfile, credentials: SessionCredentials): SiteProfile {
+  return { ...site, token: credentials.token, email: credentials.email, oauth: undefined, cachePartition: credentialPartition(credentials) };
+}
+
+/** Short, stable name for a set of credentials, for keeping each user's files apart */
+export function credentialPartition(credentials: SessionCredentials): string {
+  return crypto.createHash("sha256")
+    .update(`${credentials.email ?? ""}\n${credentials.token}`)
+    .digest("hex")
+    .slice(0, 16);
+}
@@ -0,0 +1,286 @@
+import { parseDocument } from "htmlparser2";
+import { isCDATA, isTag, isText, type AnyNode, type Element } from "domhandler";
+
+import { escapeAttr, escapeText, markerLine, textOf, childElement, childElements, findElement } from "./html.js";
+import { getMacroHandler, renderUnknownMacro, type Macro, type MacroContext } from "./macros.js";
+import type { AttachmentRef, LinkResolution, LinkTargets, PageRef } from "./links.js";
+
+/**
+ * Normalize Confluence storage format into plain HTML that Turndown can convert.
+ *
+ * The storage format is parsed into a DOM, then rendered back to HTML node by
+ * node: `ac:structured-macro` elements are dispatched to the macro registry,
+ * other `ac:`/`ri:` elements to the element handlers below, and ordinary HTML
+ * is passed through (tables are reshaped for GFM).
+ */
+
+type ElementHandler = (el: Element, ctx: MacroContext) => string;
+
+const VOID_ELEMENTS = new Set(["area", "br", "col", "embed", "hr", "img", "input", "source", "track", "wbr"]);
+
+function renderNodes(nodes: AnyNode[], ctx: MacroContext): string {
+  return nodes.map(node => renderNode(node, ctx)).join("");
+}
+
+function renderNode(node: AnyNode, ctx: MacroContext): string {
+  if (isText(node)) return escapeText(node.data);
+  if (isCDATA(node)) return escapeText(textOf(node));
+  if (!isTag(node)) return "";
+
+  const handler = ELEMENT_HANDLERS[node.name];
+  if (handler) return handler(node, ctx);
+
+  // Unknown Confluence elements: keep their text content, drop the wrapper
+  if (node.name.startsWith("ac:") || node.name.startsWith("ri:")) return renderNodes(node.children, ctx);
+
+  return renderHtmlElement(node, ctx);
+}
+
+function renderHtmlElement(el: Element, ctx: MacroContext): string {
+  const attrs = Object.entries(el.attribs)
+    .map(([k, v]) => ` ${k}="${escapeAttr(v)}"`)
+    .join("");
+  if (VOID_ELEMENTS.has(el.name)) return `<${el.name}${attrs} />`;
+  return `<${el.name}${attrs}>${renderNodes(el.children, ctx)}</${el.name}>`;
+}
+
+// --- Macros ---
+
+function parseMacro(el: Element): Macro {
+  const params: Record<string, string> = {};
+  for (const p of childElements(el, "ac:parameter")) {
+    params[p.attribs["ac:name"] ?? ""] = textOf(p);
+  }
+  const plain = childElement(el, "ac:plain-text-body");
+  return {
+    name: (el.attribs["ac:name"] ?? "").toLowerCase(),
+    params,
+    richBody: childElement(el, "ac:rich-text-body"),
+    plainBody: plain ? textOf(plain) : undefined,
+    element: el,
+  };
+}
+
+function renderMacro(el: Element, ctx: MacroContext): string {
+  const macro = parseMacro(el);
+  const handler = getMacroHandler(macro.name) ?? renderUnknownMacro;
+  return handler(macro, ctx);
+}
+
+// --- Tables ---
+
+/** Rows of a table, looking through thead/tbody/tfoot but not into nested tables. */
+function tableRows(table: Element): Element[] {
+  const rows: Element[] = [];
+  for (const child of table.children) {
+    if (!isTag(child)) continue;
+    if (child.name === "tr") rows.push(child);
+    else if (["thead", "tbody", "tfoot"].includes(child.name)) rows.push(...childElements(child, "tr"));
+  }
+  return rows;
+}
+
+/** Render cell content on a single line: markdown table cells cannot hold blocks or line breaks. */
+function renderCell(cell: Element, ctx: MacroContext): string {
+  return renderNodes(cell.children, ctx)
+    .replace(/<\/?(?:p|div|span|table|thead|tbody|tfoot|tr)(?:\s[^>]*)?>/gi, " ")
+    .replace(/<(?:th|td)(?:\s[^>]*)?>|<\/(?:th|td)>/gi, " ")
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/\s*\n\s*/g, " ")
+    .trim();
+}
+
+/**
+ * Rebuild a table in the shape Turndown's GFM plugin needs: a header row of
+ * `<th>` cells and the same number of cells in every row. Column spans are
+ * expanded into empty cells so columns stay aligned.
+ */
+function renderTable(table: Element, ctx: MacroContext): string {
+  const rows = tableRows(table).map(tr =>
+    tr.children
+      .filter((c): c is Element => isTag(c) && (c.name === "th" || c.name === "td"))
+      .flatMap(cell => {
+        const span = Math.max(1, Number.parseInt(cell.attribs.colspan ?? "1", 10) || 1);
+        return [renderCell(cell, ctx), ...Array<string>(span - 1).fill("")];
+      })
+  );
+
+  const maxCols = Math.max(0, ...rows.map(r => r.length));
+  if (maxCols === 0) return "";
+
+  const padded = rows.map(r => [...r, ...Array<string>(maxCols - r.length).fill("")]);
+  const [header, ...body] = padded;
+  const head = `<thead><tr>${header.map(c => `<th>${c}</th>`).join("")}</tr></thead>`;
+  const rest = body.map(r => `<tr>${r.map(c => `<td>${c}</td>`).join("")}</tr>`).join("");
+  return `<table>${head}${rest}</table>`;
+}
+
+// --- Links ---
+
+function pageRefOf(el: Element): PageRef | undefined {
+  const title = el.attribs["ri:content-title"];
+  return title ? { title, spaceKey: el.attribs["ri:space-key"] } : undefined;
+}
+
+function attachmentRefOf(el: Element): AttachmentRef | undefined {
+  const filename = el.attribs["ri:filename"];
+  if (!filename) return undefined;
+  const page = findElement(el, "ri:page");
+  return { filename, pageTitle: page?.attribs["ri:content-title"], spaceKey: page?.attribs["ri:space-key"] };
+}
+
+// --- Confluence elements ---
+
+/**
+ * Images are either attachments (of this or another page) or external URLs.
+ * Attachment images point at `ctx.links.imageUrl` when set, else the filename.
+ */
+function renderImage(el: Element, ctx: MacroContext): string {
+  const external = findElement(el, "ri:url")?.attribs["ri:value"];
+  const attachmentEl = findElement(el, "ri:attachment");
+  const attachment = attachmentEl && attachmentRefOf(attachmentEl);
+  const alt = el.attribs["ac:alt"] ?? el.attribs["ac:title"] ?? attachment?.filename ?? "image";
+
+  let src: string;
+  if (external) src = external;
+  else if (attachment) src = ctx.links?.imageUrl?.(attachment) ?? encodeURI(attachment.filename);
+  else return "";
+
+  return `<img alt="${escapeAttr(alt)}" src="${escapeAttr(src)}" />`;
+}
+
+/**
+ * Page, attachment and user links. Targets are looked up in `ctx.links`
+ * when link resolution ran; otherwise they render as placeholders.
+ */
+function renderLink(el: Element, ctx: MacroContext): string {
+  const body = childElement(el, "ac:link-body") ?? childElement(el, "ac:plain-text-link-body");
+  const text = body ? textOf(body).trim() : "";
+  const anchor = el.attribs["ac:anchor"];
+
+  const attachmentEl = findElement(el, "ri:attachment");
+  const attachment = attachmentEl && attachmentRefOf(attachmentEl);
+  if (attachment) {
+    const href = ctx.links?.attachmentUrl(attachment) ?? "#";
+    return `<a href="${escapeAttr(href)}">📎 ${escapeText(text || attachment.filename)}</a>`;
+  }
+
+  const user = findElement(el, "ri:user");
+  if (user) {
+    const accountId = user.attribs["ri:account-id"] ?? user.attribs["ri:userkey"];
+    const name = accountId ? ctx.links?.userName(accountId) : undefined;
+    return `<code>@${escapeText(name ?? "user")}</code>`;
+  }
+
+  const pageEl = findElement(el, "ri:page");
+  const page = pageEl && pageRefOf(pageEl);
+  if (page) {
+    const url = ctx.links?.pageUrl(page);
+    const href = url ? `${url}${anchor ? `#${anchor}` : ""}` : "#";
+    return `<a href="${escapeAttr(href)}">${escapeText(text || page.title)}</a>`;
+  }
+
+  // Link to an anchor on the same page
+  if (anchor) return `<a href="#${escapeAttr(anchor)}">${escapeText(text || anchor)}</a>`;
+
+  return escapeText(text);
+}
+
+function renderTask(el: Element, ctx: MacroContext): string {
+  const status = childElement(el, "ac:task-status");
+  const body = childElement(el, "ac:task-body");
+  const checked = status ? textOf(status).trim() === "complete" : false;
+  const content = body ? renderNodes(body.children, ctx) : "";
+  return `<li><input type="checkbox"${checked ? " checked" : ""} />${content}</li>`;
+}
+
+/**
+ * Multi-column layout sections keep their columns apart with visible
+ * markers instead of running the columns together.
+ */
+function renderLayoutSection(el: Element, ctx: MacroContext): string {
+  const cells = childElements(el, "ac:layout-cell");
+  if (cells.length <= 1) return `<div>${renderNodes(el.children, ctx)}</div>`;
+
+  const columns = cells.map((cell, i) =>
+    `${markerLine(`Column ${i + 1} of ${cells.length}`)}<div>${renderNodes(cell.children, ctx)}</div>`);
+  return `<div>${columns.join("")}${markerLine("End of columns")}</div>`;
+}
+
+const unwrapToDiv: ElementHandler = (el, ctx) => `<div>${renderNodes(el.children, ctx)}</div>`;
+const drop: ElementHandler = () => "";
+
+const ELEMENT_HANDLERS: Record<string, ElementHandler> = {
+  "ac:structured-macro": renderMacro,
+  "ac:macro": renderMacro,
+  "ac:image": renderImage,
+  "ac:link": renderLink,
+  "ac:task-list": (el, ctx) => `<ul>${childElements(el, "ac:task").map(t => renderTask(t, ctx)).join("")}</ul>`,
+  "ac:layout": unwrapToDiv,
+  "ac:layout-section": renderLayoutSection,
+  "ac:layout-cell": unwrapToDiv,
+  "ac:rich-text-body": unwrapToDiv,
+  "ac:plain-text-body": (el) => `<pre>${escapeText(textOf(el))}</pre>`,
+  "ac:parameter": drop,
+  "ac:emoticon": drop,
+  "ac:placeholder": drop,
+  "table": renderTable,
+  "colgroup": drop,
+  "col": drop,
+  "div": (el, ctx) => el.attribs.class === "content-wrapper" ? renderNodes(el.children, ctx) : renderHtmlElement(el, ctx),
+};
+
+function parseStorage(storageHtml: string) {
+  return parseDocument(storageHtml, {
+    recognizeSelfClosing: true,
+    recognizeCDATA: true,
+  });
+}
+
+/**
+ * Convert Confluence storage format to HTML with only standard elements.
+ *
+ * @param links - Resolved link targets from a LinkResolver; placeholders are used without it
+ */
+export function normalizeStorage(storageHtml: string, links?: LinkResolution): string {
+  const ctx: MacroContext = { render: nodes => renderNodes(nodes, ctx), links };
+  return renderNodes(parseStorage(storageHtml).children, ctx);
+}
+
+/**
+ * List the pages, users and attachments referenced by `ac:link` elements,
+ * and the attachments shown by `ac:image`, so they can be resolved before
+ * conversion.
+ */
+export function collectLinkTargets(storageHtml: string): LinkTargets {
+  const targets: LinkTargets = { pages: [], users: [], attachments: [], images: [] };
+
+  const visit = (nodes: AnyNode[]) => {
+    for (const node of nodes) {
+      if (!isTag(node)) continue;
+      if (node.name === "ac:link") {
+        const attachment = findElement(node, "ri:attachment");
+        const user = findElement(node, "ri:user");
+        const page = findElement(node, "ri:page");
+        const attachmentRef = attachment && attachmentRefOf(attachment);
+        if (attachmentRef) {
+          targets.attachments.push(attachmentRef);
+        } else if (user) {
+          const id = user.attribs["ri:account-id"] ?? user.attribs["ri:userkey"];
+          if (id) targets.users.push(id);
+        } else if (page) {
+          const ref = pageRefOf(page);
+          if (ref) targets.pages.push(ref);
+        }
+      } else if (node.name === "ac:image") {
+        const attachment = findElement(node, "ri:attachment");
+        const ref = attachment && attachmentRefOf(attachment);
+        if (ref) targets.images.push(ref);
+      }
+      visit(node.children);
+    }
+  };
+
+  visit(parseStorage(storageHtml).children);
+  return targets;
+}
@@ -0,0 +1,75 @@
+/**
+ * Resource subscriptions by polling. Confluence has no push notifications a
+ * local server can receive, so each subscribed resource is reduced to a
+ * fingerprint (for a page, its version number) that is checked periodically.
+ */
+
+export type ResourceWatcher = {
+  subscribe(uri: string): Promise<void>;
+  unsubscribe(uri: string): void;
+  /** Stop polling and forget all subscriptions */
+  stop(): void;
+};
+
+export type ResourceWatcherOptions = {
+  intervalMs: number;
+  /** Current fingerprint of a resource; undefined if it cannot be determined */
+  fingerprint(uri: string): Promise<string | undefined>;
+  /** Called when a subscribed resource's fingerprint changes */
+  onChange(uri: string): void | Promise<void>;
+};
+
+/**
+ * Create a watcher that polls subscribed resources while there are any.
+ * Failed checks (Confluence unreachable, page deleted) are ignored and
+ * retried on the next poll.
+ */
+export function createResourceWatcher(options: ResourceWatcherOptions): ResourceWatcher {
+  const subscriptions = new Map<string, string | undefined>();
+  let timer: NodeJS.Timeout | undefined;
+  let polling = false;
+
+  const check = (uri: string) => options.fingerprint(uri).catch(() => undefined);
+
+  async function poll(): Promise<void> {
+    if (polling) return;
+    polling = true;
+    try {
+      for (const [uri, last] of subscriptions) {
+        const current = await check(uri);
+        if (current === undefined || !subscriptions.has(uri)) continue;
+        subscriptions.set(uri, current);
+        if (last !== undefined && current !== last) await options.onChange(uri);
+      }
+    } finally {
+      polling = false;
+    }
+  }
+
+  function stopTimer(): void {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+  }
+
+  return {
+    async subscribe(uri) {
+      if (!subscriptions.has(uri)) subscriptions.set(uri, undefined);
+      const current = await check(uri);
+      if (current !== undefined && subscriptions.has(uri)) subscriptions.set(uri, current);
+      if (!timer) {
+        timer = setInterval(() => void poll().catch(() => undefined), options.intervalMs);
+        timer.unref();
+      }
+    },
+
+    unsubscribe(uri) {
+      subscriptions.delete(uri);
+      if (subscriptions.size === 0) stopTimer();
+    },
+
+    stop() {
+      subscriptions.clear();
+      stopTimer();
+    },
+  };
+}
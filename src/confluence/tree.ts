@@ -0,0 +1,98 @@
+import { fetchChildPages, fetchSpacePages, type ConfluenceClientConfig } from "./client.js";
+import type { ConfluencePageResponse } from "./types.js";
+
+export type PageTreeNode = {
+  id: string;
+  title: string;
+  parentId?: string;
+  depth: number;       // 0 for the root page
+};
+
+/**
+ * Walk the descendants of a page breadth-first using the children endpoint.
+ * Only titles and IDs are collected; page bodies are not fetched.
+ *
+ * @param root - The starting page (id and title already known)
+ * @param maxDepth - Levels of descendants to include (0 = root only)
+ */
+export async function collectPageTree(
+  cfg: ConfluenceClientConfig,
+  root: { id: string; title: string; parentId?: string },
+  maxDepth: number
+): Promise<PageTreeNode[]> {
+  const nodes: PageTreeNode[] = [{ id: root.id, title: root.title, parentId: root.parentId, depth: 0 }];
+  let frontier = [nodes[0]];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: PageTreeNode[] = [];
+    for (const parent of frontier) {
+      const children = await fetchChildPages(cfg, parent.id);
+      for (const child of children) {
+        const node = { id: child.id, title: child.title, parentId: parent.id, depth };
+        nodes.push(node);
+        next.push(node);
+      }
+    }
+    frontier = next;
+  }
+
+  return nodes;
+}
+
+/**
+ * Build the full page hierarchy of a space from a single listing of its pages.
+ * Nodes are returned depth-first in sibling order, ready to print as an outline.
+ * Pages whose parent is not visible (restricted, or outside the listing) are
+ * treated as top-level pages.
+ *
+ * @param maxDepth - Levels below the top-level pages to include (undefined = all)
+ */
+export async function collectSpaceTree(
+  cfg: ConfluenceClientConfig,
+  spaceId: string,
+  maxDepth?: number
+): Promise<PageTreeNode[]> {
+  const pages = await fetchSpacePages(cfg, spaceId);
+  const ids = new Set(pages.map(p => p.id));
+
+  const byParent = new Map<string | undefined, typeof pages>();
+  for (const page of pages) {
+    const parent = page.parentId && ids.has(page.parentId) ? page.parentId : undefined;
+    byParent.set(parent, [...(byParent.get(parent) ?? []), page]);
+  }
+  for (const siblings of byParent.values()) {
+    siblings.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity) || a.title.localeCompare(b.title));
+  }
+
+  const nodes: PageTreeNode[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    if (maxDepth !== undefined && depth > maxDepth) return;
+    for (const page of byParent.get(parentId) ?? []) {
+      nodes.push({ id: page.id, title: page.title, parentId, depth });
+      visit(page.id, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+
+  return nodes;
+}
+
+/**
+ * List the other pages that share a page's parent, in sibling order.
+ * For a top-level page these are the other top-level pages of its space.
+ */
+export async function collectSiblings(
+  cfg: ConfluenceClientConfig,
+  page: ConfluencePageResponse
+): Promise<ConfluencePageResponse[]> {
+  let siblings: ConfluencePageResponse[];
+  if (page.parentId) {
+    siblings = await fetchChildPages(cfg, page.parentId);
+  } else if (page.spaceId) {
+    siblings = await fetchSpacePages(cfg, page.spaceId, { rootOnly: true });
+    siblings.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity) || a.title.localeCompare(b.title));
+  } else {
+    return [];
+  }
+  return siblings.filter(s => s.id !== page.id);
+}
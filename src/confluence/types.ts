@@ -4,12 +4,26 @@ export type ConfluencePageResponse = {
   spaceId?: string;
   status?: string;
   parentId?: string;
-  version?: { number?: number; createdAt?: string; message?: string };
+  position?: number;   // Order among siblings
+  version?: ConfluencePageVersion;
   body?: {
     storage?: { value?: string; representation?: string };
     atlas_doc_format?: any;
   };
-  _links?: { webui?: string };
+  _links?: { webui?: string; base?: string };
+};
+
+export type ConfluencePageVersion = {
+  number?: number;
+  createdAt?: string;
+  message?: string;
+  minorEdit?: boolean;
+  authorId?: string;
+};
+
+export type ConfluenceVersionsResponse = {
+  results: ConfluencePageVersion[];
+  _links?: { next?: string };
 };
 
 export type ConfluenceChildrenResponse = {
@@ -17,11 +31,35 @@ export type ConfluenceChildrenResponse = {
   _links?: { next?: string };
 };
 
+export type ConfluencePagesResponse = {
+  results: ConfluencePageResponse[];
+  _links?: { next?: string; base?: string };
+};
+
+export type ConfluenceSpace = {
+  id: string;
+  key: string;
+  name?: string;
+  type?: string;
+  status?: string;
+  homepageId?: string;
+  _links?: { webui?: string };
+};
+
+export type ConfluenceSpacesResponse = {
+  results: ConfluenceSpace[];
+  _links?: { next?: string; base?: string };
+};
+
 export type ConfluenceAttachment = {
   id: string;
   title: string;
   mediaType?: string;
   fileSize?: number;
+  comment?: string;
+  version?: { number?: number; createdAt?: string };
+  downloadLink?: string;   // Relative to the site's wiki base URL
+  webuiLink?: string;
 };
 
 export type ConfluenceAttachmentsResponse = {
@@ -29,3 +67,83 @@ export type ConfluenceAttachmentsResponse = {
   _links?: { next?: string; base?: string };
 };
 
+
+export type ConfluenceSearchResult = {
+  content?: {
+    id: string;
+    type?: string;
+    title: string;
+    space?: { key?: string; name?: string };
+    version?: { number?: number; when?: string; by?: { displayName?: string } };
+    _links?: { webui?: string };
+  };
+  title?: string;
+  excerpt?: string;
+  url?: string;
+  lastModified?: string;
+  friendlyLastModified?: string;
+};
+
+export type ConfluenceSearchResponse = {
+  results: ConfluenceSearchResult[];
+  totalSize?: number;
+  _links?: { next?: string; base?: string };
+};
+
+export type ConfluenceUser = {
+  accountId?: string;
+  displayName?: string;
+  publicName?: string;
+  email?: string;
+};
+
+/*
+ * v1 REST API shapes, as returned by Confluence Server / Data Center.
+ * These are mapped onto the v2 types above (see v1.ts) so callers only
+ * ever deal with one representation.
+ */
+
+export type ConfluenceV1Version = {
+  number?: number;
+  when?: string;
+  message?: string;
+  minorEdit?: boolean;
+  by?: { userKey?: string; username?: string; accountId?: string; displayName?: string };
+};
+
+export type ConfluenceV1Content = {
+  id: string;
+  type?: string;
+  status?: string;
+  title: string;
+  space?: { key?: string; name?: string };
+  version?: ConfluenceV1Version;
+  ancestors?: { id: string; title?: string }[];
+  body?: { storage?: { value?: string; representation?: string } };
+  metadata?: { mediaType?: string; comment?: string };
+  extensions?: { mediaType?: string; fileSize?: number; comment?: string; position?: number | string };
+  _links?: { webui?: string; download?: string; base?: string };
+};
+
+export type ConfluenceV1ContentList = {
+  results: ConfluenceV1Content[];
+  start?: number;
+  limit?: number;
+  size?: number;
+  _links?: { next?: string; base?: string };
+};
+
+export type ConfluenceV1VersionList = {
+  results: ConfluenceV1Version[];
+  _links?: { next?: string };
+};
+
+export type ConfluenceV1Space = {
+  id?: number;
+  key: string;
+  name?: string;
+  type?: string;
+  status?: string;
+  homepage?: { id: string };
+  _links?: { webui?: string };
+};
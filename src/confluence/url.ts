@@ -1,33 +1,156 @@
+import { fetchSpaceByKey, findPagesByTitle, searchContent, type ConfluenceClientConfig } from "./client.js";
+import { quoteCql } from "./cql.js";
+import { ConfluenceNotFoundError } from "./errors.js";
+
 /**
- * Extract Confluence page ID from various URL formats
- * 
- * Supported formats:
- * - /wiki/spaces/KEY/pages/123456789/Title
- * - /wiki/pages/viewpage.action?pageId=123456789
- * 
- * @param url - Full Confluence page URL
+ * What a pasted page reference points at, before any lookups.
+ */
+export type PageReference =
+  | { kind: "id"; id: string }
+  | { kind: "title"; spaceKey: string; title: string; blogPost?: boolean }
+  | { kind: "space"; spaceKey: string };   // The space's homepage
+
+const SUPPORTED_FORMATS = [
+  "/wiki/spaces/KEY/pages/123456789/Title",
+  "/wiki/spaces/KEY/blog/2024/01/15/123456789/Title",
+  "/wiki/spaces/KEY/pages/edit-v2/123456789",
+  "/wiki/pages/viewpage.action?pageId=123456789",
+  "/wiki/pages/resumedraft.action?draftId=123456789",
+  "/wiki/x/AbCdEf (tiny link)",
+  "/wiki/spaces/KEY/overview",
+  "/display/KEY/Page+Title",
+  "123456789",
+  "KEY:Page Title",
+];
+
+/**
+ * Decode a tiny link code (the part after `/x/`) to a page ID.
+ * The code is the page ID as little-endian bytes in URL-safe base64 with
+ * trailing zero bytes ("A"s) and padding stripped.
+ */
+export function decodeTinyLink(code: string): string {
+  const b64 = code.replace(/-/g, "/").replace(/_/g, "+").padEnd(11, "A") + "=";
+  const bytes = Buffer.from(b64, "base64");
+  let id = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) id = (id << 8n) | BigInt(bytes[i]);
+  return id.toString();
+}
+
+function decodePathSegment(segment: string): string {
+  return decodeURIComponent(segment.replace(/\+/g, " "));
+}
+
+/** Parse an http(s) Confluence URL; undefined if it has no recognisable shape */
+function parseUrl(u: URL): PageReference | undefined {
+  // ID in the query: viewpage/editpage.action?pageId=, resumedraft.action?draftId=, overview?homepageId=
+  for (const name of ["pageId", "draftId", "contentId", "homepageId"]) {
+    const id = u.searchParams.get(name);
+    if (id && /^\d+$/.test(id)) return { kind: "id", id };
+  }
+
+  const p = u.pathname;
+  let m: RegExpMatchArray | null;
+
+  // .../blog/2024/01/15/<id>/Title (checked first: the year would otherwise look like an ID)
+  if ((m = p.match(/\/blog\/\d{4}\/\d{2}\/\d{2}\/(\d+)(\/|$)/))) return { kind: "id", id: m[1] };
+
+  // .../pages/<id>/..., .../pages/edit-v2/<id>, .../pages/edit/<id>, .../blog/edit-v2/<id>
+  if ((m = p.match(/\/(?:pages|blog)\/(?:edit-v2\/|edit\/|draft\/)?(\d+)(\/|$)/))) return { kind: "id", id: m[1] };
+
+  // Tiny links: /wiki/x/<code> or /x/<code>
+  if ((m = p.match(/\/x\/([A-Za-z0-9_-]+)\/?$/))) return { kind: "id", id: decodeTinyLink(m[1]) };
+
+  // Server / Data Center blog posts: /display/KEY/2024/01/15/Title
+  if ((m = p.match(/\/display\/([^/]+)\/\d{4}\/\d{2}\/\d{2}\/([^/]+)\/?$/))) {
+    return { kind: "title", spaceKey: decodePathSegment(m[1]), title: decodePathSegment(m[2]), blogPost: true };
+  }
+
+  // Server / Data Center pretty URLs: /display/KEY/Page+Title
+  if ((m = p.match(/\/display\/([^/]+)\/([^/]+)\/?$/))) {
+    return { kind: "title", spaceKey: decodePathSegment(m[1]), title: decodePathSegment(m[2]) };
+  }
+
+  // Space homepages: /wiki/spaces/KEY, /wiki/spaces/KEY/overview, /display/KEY
+  if ((m = p.match(/\/spaces\/([^/]+)(?:\/overview)?\/?$/)) || (m = p.match(/\/display\/([^/]+)\/?$/))) {
+    return { kind: "space", spaceKey: decodePathSegment(m[1]) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Work out what a pasted page reference points at: a full URL in any of the
+ * common Cloud and Server / Data Center shapes, a bare page ID, or
+ * `SPACE:Title` shorthand.
+ *
+ * @throws Error if the reference is not recognised
+ */
+export function parsePageReference(input: string): PageReference {
+  const value = input.trim();
+
+  if (/^\d+$/.test(value)) return { kind: "id", id: value };
+
+  if (/^https?:\/\//i.test(value)) {
+    let u: URL;
+    try {
+      u = new URL(value);
+    } catch (e) {
+      throw new Error(`Invalid URL: ${(e as Error).message}`);
+    }
+    const ref = parseUrl(u);
+    if (ref) return ref;
+  } else {
+    // SPACE:Title shorthand (personal spaces have keys like ~jdoe)
+    const m = value.match(/^(~?[A-Za-z0-9_-]+):(.+)$/);
+    if (m) return { kind: "title", spaceKey: m[1], title: m[2].trim() };
+  }
+
+  throw new Error(
+    `Unsupported Confluence URL format: ${value}. Accepted forms:\n${SUPPORTED_FORMATS.map(f => `- ${f}`).join("\n")}`
+  );
+}
+
+/**
+ * Extract Confluence page ID from a reference that contains one directly
+ * (anything except title and space references).
+ *
+ * @param url - Full Confluence page URL, tiny link, or bare page ID
  * @returns Page ID as string
- * @throws Error if URL format is not recognized
+ * @throws Error if the reference has no page ID in it
  */
 export function extractConfluencePageId(url: string): string {
-  // Common Confluence Cloud patterns:
-  // 1) /wiki/spaces/KEY/pages/123456789/Title
-  // 2) /wiki/pages/viewpage.action?pageId=123456789
-  // 3) Some short links redirect, but the final URL usually matches one of the above.
-  
-  try {
-    const u = new URL(url);
-    
-    // Pattern 2: viewpage.action?pageId=...
-    const pageId = u.searchParams.get("pageId");
-    if (pageId && /^\d+$/.test(pageId)) return pageId;
-    
-    // Pattern 1: .../pages/<id>/...
-    const m = u.pathname.match(/\/pages\/(\d+)(\/|$)/);
-    if (m?.[1]) return m[1];
-    
-    throw new Error("Unsupported Confluence URL format (no pageId found).");
-  } catch (e) {
-    throw new Error(`Invalid URL: ${(e as Error).message}`);
+  const ref = parsePageReference(url);
+  if (ref.kind !== "id") throw new Error("Unsupported Confluence URL format (no pageId found).");
+  return ref.id;
+}
+
+/**
+ * Resolve any supported page reference to a page ID, looking pages up by
+ * space and title, or finding the space homepage, where needed.
+ *
+ * @throws ConfluenceNotFoundError if the referenced page or space does not exist
+ */
+export async function resolvePageId(cfg: ConfluenceClientConfig, url: string): Promise<string> {
+  const ref = parsePageReference(url);
+  if (ref.kind === "id") return ref.id;
+
+  const space = await fetchSpaceByKey(cfg, ref.spaceKey);
+  if (!space) throw new ConfluenceNotFoundError(`no space with key ${ref.spaceKey}`);
+
+  if (ref.kind === "space") {
+    if (!space.homepageId) throw new ConfluenceNotFoundError(`space ${ref.spaceKey} has no homepage`);
+    return space.homepageId;
+  }
+
+  if (ref.blogPost) {
+    const cql = `type=blogpost AND space=${quoteCql(ref.spaceKey)} AND title=${quoteCql(ref.title)}`;
+    const { results } = await searchContent(cfg, cql, { limit: 1 });
+    const id = results[0]?.content?.id;
+    if (!id) throw new ConfluenceNotFoundError(`no blog post titled "${ref.title}" in space ${ref.spaceKey}`);
+    return id;
   }
+
+  const [page] = await findPagesByTitle(cfg, space.id, ref.title);
+  if (!page) throw new ConfluenceNotFoundError(`no page titled "${ref.title}" in space ${ref.spaceKey}`);
+  return page.id;
 }
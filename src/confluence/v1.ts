@@ -0,0 +1,75 @@
+import type {
+  ConfluencePageResponse,
+  ConfluencePageVersion,
+  ConfluenceAttachment,
+  ConfluenceSpace,
+  ConfluenceV1Content,
+  ConfluenceV1Version,
+  ConfluenceV1Space,
+} from "./types.js";
+
+/*
+ * Mappers from v1 REST API responses (Confluence Server / Data Center) onto
+ * the v2 shapes used everywhere else.
+ *
+ * The v1 API addresses spaces by key, so on Server / Data Center the
+ * `spaceId` of a page and the `id` of a space both hold the space key.
+ */
+
+export function versionFromV1(version: ConfluenceV1Version | undefined): ConfluencePageVersion | undefined {
+  if (!version) return undefined;
+  return {
+    number: version.number,
+    createdAt: version.when,
+    message: version.message || undefined,
+    minorEdit: version.minorEdit,
+    authorId: version.by?.userKey ?? version.by?.accountId,
+  };
+}
+
+export function pageFromV1(content: ConfluenceV1Content, base?: string): ConfluencePageResponse {
+  return {
+    id: content.id,
+    title: content.title,
+    spaceId: content.space?.key,
+    status: content.status,
+    parentId: content.ancestors?.at(-1)?.id,
+    position: content.extensions?.position !== undefined && content.extensions.position !== "none" ? Number(content.extensions.position) : undefined,
+    version: versionFromV1(content.version),
+    body: content.body?.storage ? { storage: content.body.storage } : undefined,
+    _links: { webui: content._links?.webui, base: content._links?.base ?? base },
+  };
+}
+
+export function attachmentFromV1(content: ConfluenceV1Content): ConfluenceAttachment {
+  return {
+    id: content.id,
+    title: content.title,
+    mediaType: content.extensions?.mediaType ?? content.metadata?.mediaType,
+    fileSize: content.extensions?.fileSize,
+    comment: content.extensions?.comment ?? content.metadata?.comment,
+    version: content.version ? { number: content.version.number, createdAt: content.version.when } : undefined,
+    downloadLink: content._links?.download,
+    webuiLink: content._links?.webui,
+  };
+}
+
+export function spaceFromV1(space: ConfluenceV1Space): ConfluenceSpace {
+  return {
+    id: space.key,
+    key: space.key,
+    name: space.name,
+    type: space.type,
+    status: space.status,
+    homepageId: space.homepage?.id,
+    _links: space._links,
+  };
+}
+
+/**
+ * Offset of the next page of a v1 list response, or undefined on the last page.
+ */
+export function nextStart(data: { start?: number; size?: number; _links?: { next?: string } }): number | undefined {
+  if (!data._links?.next || !data.size) return undefined;
+  return (data.start ?? 0) + (data.size ?? 0);
+}
@@ -0,0 +1,269 @@
+import * as crypto from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+
+import { streamAttachment, type ConfluenceClientConfig } from "../confluence/client.js";
+import { getAttachments } from "../confluence/cache.js";
+import type { PageTreeNode } from "../confluence/tree.js";
+import type { ConfluenceAttachment } from "../confluence/types.js";
+import { resolveInside, safeFileName } from "./paths.js";
+import { slugifyTitle } from "./tree.js";
+
+/** Name of the state file kept in every attachment download folder. */
+export const ATTACHMENT_STATE_FILENAME = ".confluence-attachments.json";
+
+/** What was last downloaded to one local file */
+type AttachmentStateEntry = {
+  pageId: string;
+  attachmentId: string;
+  version?: number;
+  sha256: string;
+  size: number;
+};
+
+/** Keyed by file path relative to the download folder, with forward slashes */
+type AttachmentState = Record<string, AttachmentStateEntry>;
+
+export type AttachmentFilter = {
+  pattern?: string;       // Filename glob: *, ?, [abc] and {png,jpg}
+  mediaTypes?: string[];  // e.g. "image/png", "image/*" or just "image"
+};
+
+export type SaveStatus =
+  | "downloaded"   // New local file
+  | "updated"      // Replaced a file this tool downloaded earlier
+  | "unchanged"    // Local file already has the same content
+  | "kept";        // Local file differs and was not written by this tool (or was edited since); left alone
+
+export type SavedAttachment = {
+  pageId: string;
+  attachment: ConfluenceAttachment;
+  path: string;    // Relative to the download folder
+  status: SaveStatus;
+  size?: number;
+};
+
+/**
+ * Turn a filename glob into a case-insensitive regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") re += ".*";
+    else if (c === "?") re += ".";
+    else if (c === "{") { re += "(?:"; inGroup = true; }
+    else if (c === "}" && inGroup) { re += ")"; inGroup = false; }
+    else if (c === "," && inGroup) re += "|";
+    else if (c === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) { re += "\\["; continue; }
+      const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+      re += `[${body}]`;
+      i = end;
+    } else re += c.replace(/[.+^${}()|\\\]]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`, "i");
+}
+
+function matchesMediaType(mediaType: string | undefined, wanted: string): boolean {
+  const type = (mediaType ?? "").toLowerCase().split(";")[0].trim();
+  const w = wanted.trim().toLowerCase();
+  if (w.endsWith("/*")) return type.startsWith(w.slice(0, -1));
+  if (!w.includes("/")) return type.startsWith(`${w}/`);
+  return type === w;
+}
+
+/**
+ * Keep the attachments whose filename matches the glob and whose media type
+ * matches any of the given types.
+ */
+export function filterAttachments(attachments: ConfluenceAttachment[], filter: AttachmentFilter): ConfluenceAttachment[] {
+  const glob = filter.pattern ? globToRegExp(filter.pattern) : undefined;
+  return attachments.filter(a =>
+    (!glob || glob.test(a.title)) &&
+    (!filter.mediaTypes?.length || filter.mediaTypes.some(t => matchesMediaType(a.mediaType, t)))
+  );
+}
+
+/**
+ * Human-readable file size, e.g. "1.5 MB".
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["bytes", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${bytes} bytes` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+async function readState(root: string): Promise<AttachmentState> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(root, ATTACHMENT_STATE_FILENAME), "utf8")) as AttachmentState;
+  } catch {
+    return {};
+  }
+}
+
+async function writeState(root: string, state: AttachmentState): Promise<void> {
+  await fs.writeFile(path.join(root, ATTACHMENT_STATE_FILENAME), JSON.stringify(state, null, 2), "utf8");
+}
+
+/** SHA-256 of a local file; undefined if it does not exist. */
+async function hashFile(file: string): Promise<string | undefined> {
+  const hash = crypto.createHash("sha256");
+  try {
+    await pipeline(createReadStream(file), hash);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Stream an attachment into a temporary file next to `file`, hashing it on the way.
+ */
+async function downloadToTemp(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  attachment: ConfluenceAttachment,
+  file: string
+): Promise<{ tmp: string; sha256: string; size: number }> {
+  const { stream } = await streamAttachment(cfg, pageId, attachment.id, attachment.downloadLink);
+  const tmp = `${file}.${process.pid}.part`;
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+  const tap = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(Readable.fromWeb(stream as NodeReadableStream<Uint8Array>), tap, createWriteStream(tmp));
+  } catch (err) {
+    await fs.rm(tmp, { force: true });
+    throw err;
+  }
+  return { tmp, sha256: hash.digest("hex"), size };
+}
+
+/** Local file name for an attachment; titles come from Confluence and must not name other directories */
+function attachmentFileName(attachment: ConfluenceAttachment): string {
+  return safeFileName(attachment.title, `attachment-${attachment.id}`);
+}
+
+/**
+ * Save one attachment under `root`, skipping the download when the state file
+ * shows the same attachment version already on disk. Local files that were
+ * not written by this tool, or were edited since, are only replaced with
+ * `overwrite`.
+ */
+async function saveAttachment(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  attachment: ConfluenceAttachment,
+  root: string,
+  relPath: string,
+  state: AttachmentState,
+  overwrite: boolean
+): Promise<SavedAttachment> {
+  const file = resolveInside(root, relPath);
+  const previous = state[relPath];
+  const localHash = await hashFile(file);
+  const ours = previous !== undefined && localHash === previous.sha256;
+  const result = (status: SaveStatus, size?: number): SavedAttachment => ({ pageId, attachment, path: relPath, status, size });
+
+  if (ours && previous.attachmentId === attachment.id && previous.version !== undefined && previous.version === attachment.version?.number) {
+    return result("unchanged", previous.size);
+  }
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const { tmp, sha256, size } = await downloadToTemp(cfg, pageId, attachment, file);
+  const entry = { pageId, attachmentId: attachment.id, version: attachment.version?.number, sha256, size };
+
+  if (localHash === sha256) {
+    await fs.rm(tmp, { force: true });
+    state[relPath] = entry;
+    return result("unchanged", size);
+  }
+  if (localHash !== undefined && !ours && !overwrite) {
+    await fs.rm(tmp, { force: true });
+    return result("kept", size);
+  }
+
+  await fs.rename(tmp, file);
+  state[relPath] = entry;
+  return result(localHash === undefined ? "downloaded" : "updated", size);
+}
+
+/**
+ * Download one attachment of a page into `destination`.
+ */
+export async function downloadAttachmentFile(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  attachment: ConfluenceAttachment,
+  destination: string,
+  options: { overwrite?: boolean } = {}
+): Promise<SavedAttachment> {
+  await fs.mkdir(destination, { recursive: true });
+  const state = await readState(destination);
+  const saved = await saveAttachment(cfg, pageId, attachment, destination, attachmentFileName(attachment), state, options.overwrite ?? false);
+  await writeState(destination, state);
+  return saved;
+}
+
+/**
+ * Download the matching attachments of several pages into `destination`.
+ * With more than one page, each page's files go into a subfolder named
+ * after its title.
+ */
+export async function downloadPageAttachments(
+  cfg: ConfluenceClientConfig,
+  pages: PageTreeNode[],
+  destination: string,
+  filter: AttachmentFilter,
+  options: { overwrite?: boolean } = {}
+): Promise<SavedAttachment[]> {
+  await fs.mkdir(destination, { recursive: true });
+  const state = await readState(destination);
+  const saved: SavedAttachment[] = [];
+  const folders = new Set<string>();
+
+  try {
+    for (const page of pages) {
+      const attachments = filterAttachments(await getAttachments(cfg, page.id), filter);
+      if (attachments.length === 0) continue;
+
+      let folder = "";
+      if (pages.length > 1) {
+        folder = slugifyTitle(page.title);
+        if (folders.has(folder)) folder = `${folder}-${page.id}`;
+        folders.add(folder);
+      }
+
+      for (const attachment of attachments) {
+        const name = attachmentFileName(attachment);
+        const relPath = folder ? `${folder}/${name}` : name;
+        saved.push(await saveAttachment(cfg, page.id, attachment, destination, relPath, state, options.overwrite ?? false));
+      }
+    }
+  } finally {
+    // Record what did get downloaded even if a later page failed
+    await writeState(destination, state);
+  }
+
+  return saved;
+}
@@ -0,0 +1,60 @@
+/**
+ * Minimal YAML front-matter support for exported markdown files.
+ *
+ * Values are written as JSON scalars (which are valid YAML), so the
+ * parser only needs to understand flat `key: value` pairs.
+ */
+
+export type FrontMatterValue = string | number | boolean | null;
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+const FENCE = "---";
+
+/**
+ * Prepend a front-matter block to a markdown body.
+ * Keys with `undefined` values are omitted.
+ */
+export function withFrontMatter(data: Record<string, FrontMatterValue | undefined>, body: string): string {
+  const lines = Object.entries(data)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}: ${JSON.stringify(v)}`);
+  return `${FENCE}\n${lines.join("\n")}\n${FENCE}\n\n${body}`;
+}
+
+/**
+ * Split a markdown file into its front-matter and body.
+ * Files without a leading `---` block return empty data and the full text as body.
+ */
+export function parseFrontMatter(text: string): { data: FrontMatter; body: string } {
+  const normalized = text.replace(/\r\n/g, "\n");
+  if (!normalized.startsWith(`${FENCE}\n`)) return { data: {}, body: text };
+
+  const end = normalized.indexOf(`\n${FENCE}`, FENCE.length);
+  if (end === -1) return { data: {}, body: text };
+
+  const data: FrontMatter = {};
+  for (const line of normalized.slice(FENCE.length + 1, end).split("\n")) {
+    const m = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (!m) continue;
+    data[m[1]] = parseScalar(m[2].trim());
+  }
+
+  const body = normalized.slice(end + FENCE.length + 1).replace(/^\n+/, "");
+  return { data, body };
+}
+
+function parseScalar(raw: string): FrontMatterValue {
+  if (raw === "" || raw === "~" || raw === "null") return null;
+  if (raw === "true") return true;
+  if (raw === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw) as string;
+    } catch {
+      return raw.slice(1, -1);
+    }
+  }
+  if (raw.startsWith("'") && raw.endsWith("'")) return raw.slice(1, -1).replace(/''/g, "'");
+  return raw;
+}
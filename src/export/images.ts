@@ -0,0 +1,156 @@
+import * as path from "node:path";
+
+import { downloadAttachmentThumbnail, type ConfluenceClientConfig } from "../confluence/client.js";
+import { getAttachments, getAttachmentContent } from "../confluence/cache.js";
+import { createLinkResolver, type AttachmentRef } from "../confluence/links.js";
+import { collectLinkTargets } from "../confluence/storage.js";
+import { storageToMarkdown } from "../confluence/transform.js";
+import type { ConfluenceAttachment, ConfluencePageResponse } from "../confluence/types.js";
+import { downloadAttachmentFile, formatBytes, type SavedAttachment } from "./attachments.js";
+
+/** Image types MCP clients can display */
+const INLINE_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+const EXTENSION_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+export type InlineImageLimits = {
+  maxBytes: number;    // Per image, before base64 encoding
+  maxImages: number;
+};
+
+export const DEFAULT_INLINE_IMAGE_LIMITS: InlineImageLimits = {
+  maxBytes: 1024 * 1024,
+  maxImages: 10,
+};
+
+export type InlineImage = {
+  filename: string;
+  data: string;        // Base64
+  mimeType: string;
+  downscaled: boolean; // Confluence's thumbnail was used because the original is too large
+};
+
+export type SkippedImage = { filename: string; reason: string };
+
+function mediaTypeOf(attachment: ConfluenceAttachment): string {
+  const type = attachment.mediaType?.split(";")[0].trim().toLowerCase();
+  return type || EXTENSION_TYPES[path.extname(attachment.title).toLowerCase()] || "application/octet-stream";
+}
+
+/**
+ * Split a page's image references into attachments of the page itself
+ * (deduplicated, in order of appearance) and ones that cannot be fetched.
+ */
+async function pageImages(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  refs: AttachmentRef[]
+): Promise<{ found: ConfluenceAttachment[]; skipped: SkippedImage[] }> {
+  const found: ConfluenceAttachment[] = [];
+  const skipped: SkippedImage[] = [];
+  const seen = new Set<string>();
+
+  const own = refs.filter(r => !r.pageTitle);
+  for (const ref of refs.filter(r => r.pageTitle)) {
+    skipped.push({ filename: ref.filename, reason: `attached to another page ("${ref.pageTitle}")` });
+  }
+  if (own.length === 0) return { found, skipped };
+
+  const attachments = await getAttachments(cfg, pageId);
+  for (const ref of own) {
+    if (seen.has(ref.filename)) continue;
+    seen.add(ref.filename);
+    const attachment = attachments.find(a => a.title === ref.filename);
+    if (attachment) found.push(attachment);
+    else skipped.push({ filename: ref.filename, reason: "no such attachment on the page" });
+  }
+  return { found, skipped };
+}
+
+/**
+ * Load the images shown on a page as base64 data for MCP image content.
+ * Images over the size limit are replaced by Confluence's thumbnail rendition
+ * when that fits; others are skipped with a reason.
+ */
+export async function loadInlineImages(
+  cfg: ConfluenceClientConfig,
+  pageId: string,
+  refs: AttachmentRef[],
+  limits: InlineImageLimits = DEFAULT_INLINE_IMAGE_LIMITS
+): Promise<{ images: InlineImage[]; skipped: SkippedImage[] }> {
+  const { found, skipped } = await pageImages(cfg, pageId, refs);
+  const images: InlineImage[] = [];
+
+  for (const attachment of found) {
+    const filename = attachment.title;
+    const mimeType = mediaTypeOf(attachment);
+
+    if (images.length >= limits.maxImages) {
+      skipped.push({ filename, reason: `over the limit of ${limits.maxImages} images per page` });
+      continue;
+    }
+    if (!INLINE_IMAGE_TYPES.has(mimeType)) {
+      skipped.push({ filename, reason: `${mimeType} cannot be shown inline` });
+      continue;
+    }
+
+    if (attachment.fileSize === undefined || attachment.fileSize <= limits.maxBytes) {
+      const { buffer } = await getAttachmentContent(cfg, pageId, attachment);
+      if (buffer.length <= limits.maxBytes) {
+        images.push({ filename, data: buffer.toString("base64"), mimeType, downscaled: false });
+        continue;
+      }
+    }
+
+    const thumbnail = await downloadAttachmentThumbnail(cfg, pageId, filename).catch(() => undefined);
+    const thumbnailType = thumbnail?.contentType.split(";")[0].trim().toLowerCase();
+    if (thumbnail && thumbnailType && INLINE_IMAGE_TYPES.has(thumbnailType) && thumbnail.buffer.length <= limits.maxBytes) {
+      images.push({ filename, data: thumbnail.buffer.toString("base64"), mimeType: thumbnailType, downscaled: true });
+    } else {
+      const size = attachment.fileSize !== undefined ? ` (${formatBytes(attachment.fileSize)})` : "";
+      skipped.push({ filename, reason: `larger than ${formatBytes(limits.maxBytes)}${size} and no smaller rendition is available` });
+    }
+  }
+
+  return { images, skipped };
+}
+
+/**
+ * Convert a page to markdown after downloading the images it shows into
+ * `destination`, with image sources rewritten to the local files.
+ *
+ * @param linkDir - The folder as the caller named it; image sources start with it rather than the server's absolute path
+ */
+export async function pageMarkdownWithLocalImages(
+  cfg: ConfluenceClientConfig,
+  page: ConfluencePageResponse,
+  destination: string,
+  linkDir: string = destination
+): Promise<{ markdown: string; saved: SavedAttachment[]; skipped: SkippedImage[] }> {
+  const storage = page.body?.storage?.value ?? "";
+  if (!storage) return { markdown: "", saved: [], skipped: [] };
+
+  const targets = collectLinkTargets(storage);
+  const links = await createLinkResolver(cfg).resolve(page, targets);
+  const { found, skipped } = await pageImages(cfg, page.id, targets.images);
+
+  const saved: SavedAttachment[] = [];
+  const localUrls = new Map<string, string>();
+  for (const attachment of found) {
+    const result = await downloadAttachmentFile(cfg, page.id, attachment, destination);
+    saved.push(result);
+    localUrls.set(attachment.title, encodeURI(path.join(linkDir, result.path).split(path.sep).join("/")));
+  }
+
+  const markdown = storageToMarkdown(storage, {
+    links: { ...links, imageUrl: ref => (!ref.pageTitle ? localUrls.get(ref.filename) : undefined) },
+  });
+  return { markdown, saved, skipped };
+}
@@ -0,0 +1,32 @@
+import * as path from "node:path";
+
+/**
+ * Resolve a relative path under `root`, refusing absolute paths, ".."
+ * segments, and anything else that would end up outside the root.
+ *
+ * @throws Error if the path is not inside the root
+ */
+export function resolveInside(root: string, relPath: string): string {
+  if (path.isAbsolute(relPath) || path.win32.isAbsolute(relPath)) {
+    throw new Error(`"${relPath}" must be a relative path`);
+  }
+  if (relPath.split(/[\\/]/).includes("..")) {
+    throw new Error(`"${relPath}" must not contain ".." segments`);
+  }
+
+  const base = path.resolve(root);
+  const resolved = path.resolve(base, relPath);
+  if (resolved !== base && !resolved.startsWith(base + path.sep)) {
+    throw new Error(`"${relPath}" is outside ${base}`);
+  }
+  return resolved;
+}
+
+/**
+ * A remote name (such as an attachment title) as a single file name: its last
+ * path segment, or `fallback` when that is empty, "." or "..".
+ */
+export function safeFileName(name: string, fallback: string): string {
+  const base = name.split(/[\\/]/).pop()?.trim() ?? "";
+  return base && base !== "." && base !== ".." ? base : fallback;
+}
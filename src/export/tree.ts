@@ -0,0 +1,215 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import { fetchChildPages, type ConfluenceClientConfig } from "../confluence/client.js";
+import { getPage, getPageMarkdown, getAttachments, getAttachmentContent } from "../confluence/cache.js";
+import { createLinkResolver, type LinkResolver } from "../confluence/links.js";
+import { collectLinkTargets } from "../confluence/storage.js";
+import { storageToMarkdown } from "../confluence/transform.js";
+import type { ConfluencePageResponse } from "../confluence/types.js";
+import { withFrontMatter } from "./frontmatter.js";
+import { resolveInside, safeFileName } from "./paths.js";
+
+/** Name of the manifest written at the root of every export. */
+export const MANIFEST_FILENAME = ".confluence-manifest.json";
+
+export type ManifestEntry = {
+  id: string;
+  title: string;
+  version?: number;
+  parentId?: string;
+  webui?: string;
+  path: string;        // Relative to the export root, always with forward slashes
+  attachments?: string[];  // Downloaded attachment files, relative to the export root
+};
+
+export type ExportManifest = {
+  rootPageId: string;
+  exportedAt: string;
+  maxDepth: number;
+  pages: ManifestEntry[];
+};
+
+export type ExportTreeOptions = {
+  maxDepth: number;       // 0 exports only the root page
+  attachments?: boolean;  // Download linked attachments and point links at the local copies
+};
+
+/**
+ * Turn a page title into a filesystem-safe file stem.
+ */
+export function slugifyTitle(title: string): string {
+  const slug = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return slug || "untitled";
+}
+
+/**
+ * Absolute web URL for a page, if the API response carries enough link info.
+ */
+export function pageWebUrl(page: ConfluencePageResponse): string | undefined {
+  const webui = page._links?.webui;
+  if (!webui) return undefined;
+  return page._links?.base ? `${page._links.base}${webui}` : webui;
+}
+
+/**
+ * Drop the leading `# Title` line that exports add, so the remaining
+ * text can be compared with (or published as) the page body.
+ */
+export function stripTitleHeading(body: string, title: string): string {
+  const m = body.match(/^\s*#\s+(.+)\n/);
+  return m && m[1].trim() === title.trim() ? body.slice(m[0].length) : body;
+}
+
+/**
+ * Read the manifest from a previous export, if there is one.
+ */
+export async function readManifest(root: string): Promise<ExportManifest | undefined> {
+  try {
+    const raw = await fs.readFile(path.join(root, MANIFEST_FILENAME), "utf8");
+    return JSON.parse(raw) as ExportManifest;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert a page for export, downloading the attachments it links to and the
+ * images it shows into `<stem>.attachments/` so they point at local files.
+ *
+ * @returns The markdown and the downloaded files (relative to the export root)
+ */
+async function convertWithLocalAttachments(
+  cfg: ConfluenceClientConfig,
+  page: ConfluencePageResponse,
+  resolver: LinkResolver,
+  destination: string,
+  relPath: string
+): Promise<{ markdown: string; files: string[] }> {
+  const storage = page.body?.storage?.value ?? "";
+  if (!storage) return { markdown: "", files: [] };
+
+  const targets = collectLinkTargets(storage);
+  const links = await resolver.resolve(page, targets);
+
+  const wanted = new Set([...targets.attachments, ...targets.images].filter(a => !a.pageTitle).map(a => a.filename));
+  const stem = path.posix.basename(relPath, ".md");
+  const folder = `${stem}.attachments`;
+  const localHrefs = new Map<string, string>();
+  const files: string[] = [];
+
+  if (wanted.size > 0) {
+    for (const attachment of await getAttachments(cfg, page.id)) {
+      if (!wanted.has(attachment.title)) continue;
+      const { buffer } = await getAttachmentContent(cfg, page.id, attachment);
+      const name = safeFileName(attachment.title, `attachment-${attachment.id}`);
+      const rel = path.posix.join(path.posix.dirname(relPath), folder, name);
+      const abs = resolveInside(destination, rel);
+      await fs.mkdir(path.dirname(abs), { recursive: true });
+      await fs.writeFile(abs, buffer);
+      localHrefs.set(attachment.title, `${folder}/${encodeURIComponent(name)}`);
+      files.push(rel);
+    }
+  }
+
+  const markdown = storageToMarkdown(storage, {
+    links: {
+      ...links,
+      attachmentUrl: ref => (!ref.pageTitle ? localHrefs.get(ref.filename) : undefined) ?? links.attachmentUrl(ref),
+      imageUrl: ref => (!ref.pageTitle ? localHrefs.get(ref.filename) : undefined),
+    },
+  });
+  return { markdown, files };
+}
+
+/**
+ * Mirror a Confluence page and its descendants to a directory of markdown files.
+ *
+ * Each page is written as `<slug>.md` with front-matter; its children go in a
+ * sibling directory named `<slug>/`. A manifest mapping files to page IDs is
+ * written at the export root. Paths recorded in an existing manifest are reused
+ * so that re-exports keep files in place even if a page was renamed.
+ *
+ * Links to other pages, users and attachments are resolved once per export.
+ */
+export async function exportPageTree(
+  cfg: ConfluenceClientConfig,
+  rootPageId: string,
+  destination: string,
+  options: ExportTreeOptions
+): Promise<ExportManifest> {
+  const previous = await readManifest(destination);
+  const previousPaths = new Map(previous?.pages.map(p => [p.id, p.path]) ?? []);
+  const entries: ManifestEntry[] = [];
+  const resolver = createLinkResolver(cfg);
+
+  async function visit(pageId: string, dir: string, depth: number, taken: Set<string>): Promise<void> {
+    const page = await getPage(cfg, pageId);
+
+    // The manifest is a local file that may have been edited: only reuse paths that look like ours
+    let relPath = previousPaths.get(page.id);
+    const previousStem = relPath !== undefined ? path.posix.basename(relPath, ".md") : undefined;
+    if (!relPath || !previousStem || !/^[a-z0-9-]+$/.test(previousStem) || path.posix.dirname(relPath) !== dir || taken.has(previousStem)) {
+      let stem = slugifyTitle(page.title);
+      if (taken.has(stem)) stem = `${stem}-${page.id}`;
+      relPath = path.posix.join(dir, `${stem}.md`);
+    }
+    const stem = path.posix.basename(relPath, ".md");
+    taken.add(stem);
+
+    const { markdown, files } = options.attachments
+      ? await convertWithLocalAttachments(cfg, page, resolver, destination, relPath)
+      : { markdown: await getPageMarkdown(cfg, page, resolver), files: [] };
+
+    const webui = pageWebUrl(page);
+    const file = withFrontMatter({
+      id: page.id,
+      title: page.title,
+      version: page.version?.number,
+      parentId: page.parentId,
+      webui,
+    }, `# ${page.title}\n\n${markdown}\n`);
+
+    const absPath = resolveInside(destination, relPath);
+    await fs.mkdir(path.dirname(absPath), { recursive: true });
+    await fs.writeFile(absPath, file, "utf8");
+
+    entries.push({
+      id: page.id,
+      title: page.title,
+      version: page.version?.number,
+      parentId: page.parentId,
+      webui,
+      path: relPath,
+      attachments: files.length > 0 ? files : undefined,
+    });
+
+    if (depth >= options.maxDepth) return;
+
+    const children = await fetchChildPages(cfg, page.id);
+    const childDir = path.posix.join(dir, stem);
+    const childTaken = new Set<string>();
+    for (const child of children) {
+      await visit(child.id, childDir, depth + 1, childTaken);
+    }
+  }
+
+  await visit(rootPageId, ".", 0, new Set());
+
+  const manifest: ExportManifest = {
+    rootPageId,
+    exportedAt: new Date().toISOString(),
+    maxDepth: options.maxDepth,
+    pages: entries,
+  };
+  await fs.mkdir(destination, { recursive: true });
+  await fs.writeFile(path.join(destination, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2) + "\n", "utf8");
+
+  return manifest;
+}
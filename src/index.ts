@@ -1,254 +1,1379 @@
 #!/usr/bin/env node
 
 import { z } from "zod";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { UriTemplate, type Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { ErrorCode, McpError, SubscribeRequestSchema, UnsubscribeRequestSchema, type ListResourcesResult, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
 
-import { extractConfluencePageId } from "./confluence/url.js";
-import { fetchPageById, fetchChildPages, fetchAttachments, downloadAttachment, buildAuthHeaders, buildBase, type ConfluenceClientConfig } from "./confluence/client.js";
-import { storageToMarkdown } from "./confluence/transform.js";
+import { resolvePageId } from "./confluence/url.js";
+import { configureSites, listSites, loadSiteProfiles, makeSite, parseDeployment, selectSite, validateSite, withCredentials, credentialPartition, isAbsoluteUrl, type SessionCredentials, type SiteProfile } from "./confluence/sites.js";
+import { login, discoverCloudId, makeOAuthSettings } from "./confluence/oauth.js";
+import { fetchPageById, fetchPageVersion, fetchChildPages, searchContent, fetchPageVersions, updatePage, createPage, fetchSpaceByKey, fetchSpaces, fetchAncestors, findPagesByTitle, verifyAccess, type ConfluenceClientConfig, type ConfluenceDeployment } from "./confluence/client.js";
+import { buildCql } from "./confluence/cql.js";
+import { collectLinkTargets } from "./confluence/storage.js";
+import { parseOutline, findSection, sliceMarkdown } from "./confluence/outline.js";
+import { collectPageTree, collectSpaceTree, collectSiblings } from "./confluence/tree.js";
+import { createResourceWatcher } from "./confluence/subscriptions.js";
+import { configureRequestPolicy } from "./confluence/http.js";
+import { configureCache, getCacheSettings, getPage, getPageMarkdown, getAttachments, clearCache } from "./confluence/cache.js";
+import { ConfluenceApiError, ConfluenceUnauthorizedError, ConfluenceForbiddenError, ConfluenceNetworkError } from "./confluence/errors.js";
+import { markdownToStorage } from "./confluence/markdown.js";
+import { findLostElements } from "./confluence/roundtrip.js";
 import { generateUnifiedDiff, generateDiffStats } from "./compare/diff.js";
-
-const server = new McpServer({
-  name: "confluence-reader-mcp",
-  version: "0.2.3"
-});
+import { compareFolder } from "./compare/folder.js";
+import { findVersionAt, diffPageVersions } from "./compare/versions.js";
+import { downloadAttachmentFile, downloadPageAttachments, filterAttachments, formatBytes, type SavedAttachment } from "./export/attachments.js";
+import { loadInlineImages, pageMarkdownWithLocalImages } from "./export/images.js";
+import { exportPageTree, pageWebUrl, stripTitleHeading, MANIFEST_FILENAME } from "./export/tree.js";
+import { parseFrontMatter } from "./export/frontmatter.js";
+import { resolveInside } from "./export/paths.js";
+import { startHttpServer, MCP_PATH, type ClientCredentialsMode } from "./transport/http.js";
 
 function getEnv(name: string): string | undefined {
   const v = process.env[name];
   return v && v.trim().length > 0 ? v.trim() : undefined;
 }
 
-function validateEnvironment(): void {
+function getBoolEnv(name: string): boolean | undefined {
+  const v = getEnv(name)?.toLowerCase();
+  if (v === undefined) return undefined;
+  return ["1", "true", "yes", "on"].includes(v);
+}
+
+/** Map CONFLUENCE_DEPLOYMENT to a deployment mode; undefined if the value is not recognised */
+function getDeployment(): ConfluenceDeployment | undefined {
+  return parseDeployment(getEnv("CONFLUENCE_DEPLOYMENT"));
+}
+
+/** CONFLUENCE_MCP_CLIENT_CREDENTIALS; undefined if the value is not recognised */
+function getClientCredentialsMode(): ClientCredentialsMode | undefined {
+  const mode = getEnv("CONFLUENCE_MCP_CLIENT_CREDENTIALS")?.toLowerCase() ?? "off";
+  return mode === "off" || mode === "optional" || mode === "required" ? mode : undefined;
+}
+
+/** Check every profile in the CONFLUENCE_PROFILES file */
+function validateProfiles(file: string, clientCredentials: boolean): string[] {
+  let profiles: ReturnType<typeof loadSiteProfiles>;
+  try {
+    profiles = loadSiteProfiles(file);
+  } catch (err) {
+    return [(err as Error).message];
+  }
+
+  const errors: string[] = [];
+  if (profiles.sites.length === 0) {
+    errors.push(`${file} defines no sites`);
+  }
+  if (profiles.defaultSite && !profiles.sites.some(s => s.name === profiles.defaultSite)) {
+    errors.push(`default site "${profiles.defaultSite}" is not defined in ${file}`);
+  }
+  for (const site of profiles.sites) {
+    errors.push(...validateSite(site, { clientCredentials }).map(problem => `site "${site.name}": ${problem}`));
+  }
+  return errors;
+}
+
+/**
+ * Check the single-site CONFLUENCE_* env vars. With `clientCredentials`, every
+ * client brings its own token, so the server needs none.
+ */
+function validateEnvSite(clientCredentials: boolean): string[] {
   const token = getEnv("CONFLUENCE_TOKEN");
   const email = getEnv("CONFLUENCE_EMAIL");
+  const deployment = getDeployment();
+  const cloudId = getEnv("CONFLUENCE_CLOUD_ID");
+  const baseUrl = getEnv("CONFLUENCE_BASE_URL");
   
   const errors: string[] = [];
   
-  if (!token) {
-    errors.push("CONFLUENCE_TOKEN is required (get a scoped API token from: https://support.atlassian.com/confluence/kb/scoped-api-tokens-in-confluence-cloud/)");
+  if (!deployment) {
+    errors.push(`CONFLUENCE_DEPLOYMENT must be "cloud" or "server" (got "${getEnv("CONFLUENCE_DEPLOYMENT")}")`);
   }
   
-  if (!email) {
-    errors.push("CONFLUENCE_EMAIL is required (email address associated with your Atlassian account)");
+  if (getEnv("CONFLUENCE_OAUTH_CLIENT_ID")) {
+    // OAuth replaces the token and email; the cloud ID is discovered after sign-in if not set
+    if (deployment === "server") {
+      errors.push("OAuth (CONFLUENCE_OAUTH_CLIENT_ID) is only supported for Atlassian Cloud");
+    }
+    const port = getEnv("CONFLUENCE_OAUTH_REDIRECT_PORT");
+    if (port !== undefined && !(Number.isInteger(Number(port)) && Number(port) >= 1 && Number(port) <= 65535)) {
+      errors.push(`CONFLUENCE_OAUTH_REDIRECT_PORT must be a port number (got "${port}")`);
+    }
+  } else if (deployment === "server") {
+    if (!token && !clientCredentials) {
+      errors.push("CONFLUENCE_TOKEN is required (create a personal access token under Profile → Settings → Personal Access Tokens)");
+    }
+    if (!baseUrl) {
+      errors.push("CONFLUENCE_BASE_URL is required for Server / Data Center, including any context path (e.g. https://wiki.example.com/confluence)");
+    }
+  } else {
+    if (!token && !clientCredentials) {
+      errors.push("CONFLUENCE_TOKEN is required (get a scoped API token from: https://support.atlassian.com/confluence/kb/scoped-api-tokens-in-confluence-cloud/)");
+    }
+    
+    if (!email && !clientCredentials) {
+      errors.push("CONFLUENCE_EMAIL is required (email address associated with your Atlassian account)");
+    }
+    
+    if (!cloudId && !baseUrl) {
+      errors.push("Either CONFLUENCE_CLOUD_ID or CONFLUENCE_BASE_URL must be set");
+    }
   }
   
-  const cloudId = getEnv("CONFLUENCE_CLOUD_ID");
-  const baseUrl = getEnv("CONFLUENCE_BASE_URL");
+  if (baseUrl && !isAbsoluteUrl(baseUrl)) {
+    errors.push(`CONFLUENCE_BASE_URL must be a full URL (got "${baseUrl}")`);
+  }
+  
+  return errors;
+}
+
+function validateEnvironment(): void {
+  const deployment = getDeployment();
+  const profilesFile = getEnv("CONFLUENCE_PROFILES");
+  
+  const clientCredentials = getClientCredentialsMode() === "required";
+  
+  const errors = profilesFile ? validateProfiles(profilesFile, clientCredentials) : validateEnvSite(clientCredentials);
   
-  if (!cloudId && !baseUrl) {
-    errors.push("Either CONFLUENCE_CLOUD_ID or CONFLUENCE_BASE_URL must be set");
+  for (const [name, min] of [["CONFLUENCE_MAX_RETRIES", 0], ["CONFLUENCE_TIMEOUT_MS", 1], ["CONFLUENCE_MAX_CONCURRENCY", 1], ["CONFLUENCE_CACHE_TTL", 0], ["CONFLUENCE_POLL_INTERVAL", 1], ["CONFLUENCE_MCP_PORT", 1], ["CONFLUENCE_MCP_SESSION_TIMEOUT", 1]] as const) {
+    const value = getEnv(name);
+    if (value !== undefined && !(Number.isInteger(Number(value)) && Number(value) >= min)) {
+      errors.push(`${name} must be an integer >= ${min} (got "${value}")`);
+    }
+  }
+  
+  const transport = getEnv("CONFLUENCE_MCP_TRANSPORT")?.toLowerCase();
+  if (transport !== undefined && transport !== "stdio" && transport !== "http") {
+    errors.push(`CONFLUENCE_MCP_TRANSPORT must be "stdio" or "http" (got "${transport}")`);
+  }
+  
+  const credentialsMode = getClientCredentialsMode();
+  if (!credentialsMode) {
+    errors.push(`CONFLUENCE_MCP_CLIENT_CREDENTIALS must be "off", "optional" or "required" (got "${getEnv("CONFLUENCE_MCP_CLIENT_CREDENTIALS")}")`);
+  } else if (credentialsMode !== "off" && transport !== "http") {
+    errors.push("CONFLUENCE_MCP_CLIENT_CREDENTIALS only applies to the HTTP transport (set CONFLUENCE_MCP_TRANSPORT=http)");
   }
   
   if (errors.length > 0) {
     console.error("\n❌ Environment configuration errors:\n");
     errors.forEach(err => console.error(`  • ${err}`));
+    if (profilesFile) {
+      console.error(`\nFix the profiles file at ${profilesFile} (see README: Multiple Sites).\n`);
+      process.exit(1);
+    }
     console.error("\nSet the required environment variables in your shell profile (~/.zshrc, ~/.bashrc, etc.):\n");
-    console.error("  export CONFLUENCE_TOKEN=\"your_scoped_token\"");
-    console.error("  export CONFLUENCE_EMAIL=\"your_email@example.com\"");
-    console.error("  export CONFLUENCE_CLOUD_ID=\"xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx\"\n");
+    if (deployment === "server") {
+      console.error("  export CONFLUENCE_DEPLOYMENT=\"server\"");
+      console.error("  export CONFLUENCE_TOKEN=\"your_personal_access_token\"");
+      console.error("  export CONFLUENCE_BASE_URL=\"https://wiki.example.com/confluence\"\n");
+    } else {
+      console.error("  export CONFLUENCE_TOKEN=\"your_scoped_token\"");
+      console.error("  export CONFLUENCE_EMAIL=\"your_email@example.com\"");
+      console.error("  export CONFLUENCE_CLOUD_ID=\"xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx\"\n");
+    }
     process.exit(1);
   }
 }
 
-/** Build config from env vars */
-function getCfg(): ConfluenceClientConfig {
-  return {
-    token: getEnv("CONFLUENCE_TOKEN")!,
-    email: getEnv("CONFLUENCE_EMAIL")!,
-    cloudId: getEnv("CONFLUENCE_CLOUD_ID"),
-    baseUrl: getEnv("CONFLUENCE_BASE_URL"),
+/**
+ * Convert a thrown error into an MCP tool error result.
+ * Confluence API errors include a hint telling the assistant what to do next.
+ */
+function toolError(err: unknown) {
+  const text = err instanceof ConfluenceApiError
+    ? `${err.message}\n\nHint: ${err.hint}`
+    : `Error: ${err instanceof Error ? err.message : String(err)}`;
+  return { content: [{ type: "text" as const, text }], isError: true };
+}
+
+/** Wrap a tool handler so failures become isError results instead of exceptions. */
+function withErrorHandling<A extends unknown[], R>(handler: (...args: A) => Promise<R>) {
+  return async (...args: A) => {
+    try {
+      return await handler(...args);
+    } catch (err) {
+      return toolError(err);
+    }
   };
 }
 
-server.tool(
-  "confluence.fetch_page",
-  "Fetch a Confluence page as markdown. Returns the page content and lists any direct child pages so the caller can decide which children to fetch next.",
-  {
-    url: z.string().describe("Confluence page URL"),
-  },
-  async ({ url }) => {
-    const cfg = getCfg();
-    const pageId = extractConfluencePageId(url);
-    const page = await fetchPageById(cfg, pageId);
-    const children = await fetchChildPages(cfg, pageId);
-
-    const storage = page.body?.storage?.value ?? "";
-    const markdown = storage ? storageToMarkdown(storage) : "";
-
-    const childList = children.length > 0
-      ? `\n\n---\n## Child Pages\n${children.map(c => `- ${c.title} (id: ${c.id})`).join("\n")}`
-      : "";
-
-    return {
-      content: [{
-        type: "text",
-        text: `# ${page.title}\n\n${markdown}${childList}`
-      }]
-    };
+function getIntEnv(name: string): number | undefined {
+  const v = getEnv(name);
+  return v !== undefined ? Number(v) : undefined;
+}
+
+/** Apply retry, timeout and concurrency overrides from env vars */
+function configureRequests(): void {
+  configureRequestPolicy({
+    maxRetries: getIntEnv("CONFLUENCE_MAX_RETRIES"),
+    timeoutMs: getIntEnv("CONFLUENCE_TIMEOUT_MS"),
+    maxConcurrent: getIntEnv("CONFLUENCE_MAX_CONCURRENCY"),
+  });
+}
+
+/** Apply cache location, TTL and offline mode from env vars */
+function configureCacheFromEnv(): void {
+  const ttl = getIntEnv("CONFLUENCE_CACHE_TTL");
+  configureCache({
+    enabled: getEnv("CONFLUENCE_CACHE")?.toLowerCase() !== "off",
+    dir: getEnv("CONFLUENCE_CACHE_DIR"),
+    ttlMs: ttl !== undefined ? ttl * 1000 : undefined,
+    offline: getBoolEnv("CONFLUENCE_OFFLINE"),
+  });
+}
+
+/** Load sites from the CONFLUENCE_PROFILES file, or a single "default" site from env vars */
+function configureSitesFromEnv(): void {
+  const profilesFile = getEnv("CONFLUENCE_PROFILES");
+  if (profilesFile) {
+    const { sites, defaultSite } = loadSiteProfiles(profilesFile);
+    configureSites(sites, defaultSite);
+    return;
   }
-);
-
-server.tool(
-  "confluence.list_children",
-  "List the direct child pages of a Confluence page without fetching their content. Useful for discovering page structure before fetching individual pages.",
-  {
-    url: z.string().describe("Confluence page URL")
-  },
-  async ({ url }) => {
-    const cfg = getCfg();
-    const pageId = extractConfluencePageId(url);
-    const children = await fetchChildPages(cfg, pageId);
-
-    const lines = children.map(c => `- ${c.title} (id: ${c.id})`);
-    const text = lines.length > 0
-      ? `Found ${lines.length} child page(s):\n\n${lines.join("\n")}`
-      : "No child pages found.";
-
-    return { content: [{ type: "text" as const, text }] };
+
+  const clientId = getEnv("CONFLUENCE_OAUTH_CLIENT_ID");
+  configureSites([makeSite("default", {
+    token: getEnv("CONFLUENCE_TOKEN") ?? "",
+    email: getEnv("CONFLUENCE_EMAIL"),
+    cloudId: getEnv("CONFLUENCE_CLOUD_ID"),
+    baseUrl: getEnv("CONFLUENCE_BASE_URL"),
+    deployment: getDeployment(),
+    oauth: clientId ? makeOAuthSettings({
+      clientId,
+      clientSecret: getEnv("CONFLUENCE_OAUTH_CLIENT_SECRET"),
+      scopes: getEnv("CONFLUENCE_OAUTH_SCOPES")?.split(/[\s,]+/).filter(Boolean),
+      redirectPort: getIntEnv("CONFLUENCE_OAUTH_REDIRECT_PORT"),
+      tokenFile: getEnv("CONFLUENCE_OAUTH_TOKEN_FILE"),
+    }) : undefined,
+  })]);
+}
+
+type SiteTarget = { site?: string; url?: string };
+
+/**
+ * Pick the site config for a tool call from an explicit site name or the page
+ * URL, using the session's own credentials when it has them.
+ */
+function siteFor(target: SiteTarget, credentials?: SessionCredentials): SiteProfile {
+  const site = selectSite(target);
+  return credentials ? withCredentials(site, credentials) : site;
+}
+
+/** "Space › Parent › … › Title" */
+function formatBreadcrumb(location: Awaited<ReturnType<typeof fetchAncestors>>, title: string): string {
+  const space = location.space?.name ?? location.space?.key;
+  return [space, ...location.ancestors.map(a => a.title), title].filter(Boolean).join(" › ");
+}
+
+/** One-line result for fetch_image */
+function describeSavedAttachment(saved: SavedAttachment, filePath: string): string {
+  const size = saved.size !== undefined ? ` (${formatBytes(saved.size)})` : "";
+  switch (saved.status) {
+    case "unchanged": return `"${saved.attachment.title}" is already up to date at ${filePath}${size}`;
+    case "kept": return `${filePath} differs from "${saved.attachment.title}" and was not downloaded by this tool (or was edited since); left it alone. Pass overwrite: true to replace it.`;
+    default: return `Saved "${saved.attachment.title}"${size} to ${filePath}`;
   }
-);
-
-server.tool(
-  "confluence.fetch_image",
-  "Download an image attachment from a Confluence page by filename and save it to a local directory. Returns the saved file path.",
-  {
-    url: z.string().describe("Confluence page URL"),
-    filename: z.string().describe("Attachment filename (e.g. 'architecture.png')"),
-    destination: z.string().describe("Local directory path to save the image to")
-  },
-  async ({ url, filename, destination }) => {
-    const cfg = getCfg();
-    const pageId = extractConfluencePageId(url);
-    const attachments = await fetchAttachments(cfg, pageId);
-
-    const match = attachments.find(a =>
-      a.title.toLowerCase() === filename.toLowerCase()
+}
+
+const siteParam = z.string().optional().describe("Name of the configured site to use; defaults to the site whose host matches the URL");
+
+/**
+ * Maps a path given to a tool to the local path to use, throwing if the path
+ * is not allowed.
+ */
+type LocalPaths = (p: string) => string;
+
+/**
+ * Register every tool on a server instance, acting with the session's
+ * credentials if given. Tools that save files are only registered when
+ * `localPath` is given, and every path they touch goes through it.
+ */
+function registerTools(server: McpServer, credentials?: SessionCredentials, localPath?: LocalPaths): void {
+  const getCfg = (target: SiteTarget = {}) => siteFor(target, credentials);
+
+  server.tool(
+    "confluence.fetch_page",
+    "Fetch a Confluence page as markdown. Returns the page content and lists any direct child pages so the caller can decide which children to fetch next. Optionally shows where the page sits (its ancestor breadcrumb) and its sibling pages.",
+    {
+      url: z.string().describe("Confluence page URL, tiny link, page ID, or SPACE:Title"),
+      includeAncestors: z.boolean().default(false).describe("Show the breadcrumb of ancestor pages from the space root down to this page"),
+      includeSiblings: z.boolean().default(false).describe("List the other pages under the same parent"),
+      images: z.enum(["none", "inline", "download"]).default("none").describe("What to do with images shown on the page: 'inline' returns them as image content (oversized ones downscaled or skipped), 'download' saves them to imageDir and points the markdown at the local files"),
+      imageDir: z.string().optional().describe("Local directory to save images to when images is 'download'"),
+      section: z.string().optional().describe("Only return this section, by heading path, e.g. 'Design > API > Errors' (see confluence.page_outline)"),
+      maxChars: z.number().int().min(1000).optional().describe("Return at most about this many characters, cut at a heading or block boundary; the response says which offset to continue from"),
+      offset: z.number().int().min(0).optional().describe("Character offset into the page markdown to start from (from a previous response or confluence.page_outline)"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, includeAncestors, includeSiblings, images, imageDir, section, maxChars, offset, site }) => {
+      if (images === "download" && !imageDir) {
+        return {
+          content: [{ type: "text" as const, text: "Pass imageDir when images is 'download'." }]
+        };
+      }
+      if (images === "download" && !localPath) {
+        throw new Error("This server does not save files; use images 'inline' instead.");
+      }
+
+      const cfg = getCfg({ site, url });
+      const pageId = await resolvePageId(cfg, url);
+      const page = await getPage(cfg, pageId);
+      // When Confluence is unreachable the page may come from cache; show it without children
+      const offlineFallback = <T>(empty: T) => (err: unknown): T => {
+        if (err instanceof ConfluenceNetworkError) return empty;
+        throw err;
+      };
+      // Offline mode never contacts Confluence, and the page tree is not cached
+      const online = !getCacheSettings().offline;
+      const children = online ? await fetchChildPages(cfg, pageId).catch(offlineFallback([])) : [];
+      const location = online && includeAncestors ? await fetchAncestors(cfg, pageId).catch(offlineFallback(undefined)) : undefined;
+      const siblings = online && includeSiblings ? await collectSiblings(cfg, page).catch(offlineFallback([])) : [];
+
+      const storage = page.body?.storage?.value ?? "";
+      const local = images === "download" ? await pageMarkdownWithLocalImages(cfg, page, localPath!(imageDir!), imageDir) : undefined;
+      const fullMarkdown = local?.markdown ?? await getPageMarkdown(cfg, page);
+
+      // Narrow to a section and/or one piece of the page; offsets always refer to the whole page markdown
+      let range = { start: 0, end: fullMarkdown.length };
+      if (section) {
+        const headings = parseOutline(fullMarkdown);
+        const match = findSection(headings, section);
+        if (!match) {
+          const available = headings.map(h => `${"  ".repeat(h.level - 1)}- ${h.path.join(" > ")}`).join("\n");
+          return {
+            content: [{ type: "text" as const, text: `Section "${section}" not found on "${page.title}". Headings:\n${available || "(none)"}` }]
+          };
+        }
+        range = { start: match.offset, end: match.end };
+      }
+      const piece = sliceMarkdown(
+        fullMarkdown.slice(range.start, range.end),
+        Math.max(0, (offset ?? range.start) - range.start),
+        maxChars
+      );
+      const start = range.start + piece.start;
+      const end = range.start + piece.end;
+      const partial = start > 0 || end < fullMarkdown.length;
+      const markdown = piece.text.replace(/\n+$/, "");
+
+      // Inline only the images shown in the returned piece
+      const imageRefs = collectLinkTargets(storage).images
+        .filter(ref => !partial || markdown.includes(encodeURI(ref.filename)));
+      const inline = images === "inline" ? await loadInlineImages(cfg, pageId, imageRefs) : undefined;
+
+      const breadcrumb = location
+        ? `> Location: ${formatBreadcrumb(location, page.title)}\n\n`
+        : "";
+      const childList = children.length > 0
+        ? `\n\n---\n## Child Pages\n${children.map(c => `- ${c.title} (id: ${c.id})`).join("\n")}`
+        : "";
+      const siblingList = siblings.length > 0
+        ? `\n\n---\n## Sibling Pages\n${siblings.map(s => `- ${s.title} (id: ${s.id})`).join("\n")}`
+        : "";
+
+      const skipped = local?.skipped ?? inline?.skipped ?? [];
+      const imageNotes = [
+        ...(local?.saved ?? []).map(s => `- ${s.path}: ${s.status}`),
+        ...(inline?.images ?? []).filter(i => i.downscaled).map(i => `- ${i.filename}: shown as Confluence's thumbnail (original too large)`),
+        ...skipped.map(s => `- ${s.filename}: not ${images === "download" ? "downloaded" : "shown"}, ${s.reason}`),
+      ];
+      const imageList = imageNotes.length > 0
+        ? `\n\n---\n## Images\n${imageNotes.join("\n")}`
+        : "";
+      const offlineNote = !online && (includeAncestors || includeSiblings)
+        ? "\n\n---\n> Offline mode: ancestors, siblings and child pages are not available."
+        : "";
+      const pieceNote = partial
+        ? `\n\n---\n> Showing characters ${start}–${end} of ${fullMarkdown.length}${section ? ` (section "${section}" ends at ${range.end})` : ""}.` +
+          (piece.oversized ? " This block is longer than maxChars and was returned whole." : "") +
+          (end < range.end ? ` Continue with offset: ${end}.` : "")
+        : "";
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `# ${page.title}\n\n${breadcrumb}${markdown}${pieceNote}${childList}${siblingList}${imageList}${offlineNote}`
+          },
+          ...(inline?.images ?? []).flatMap(i => [
+            { type: "text" as const, text: `Image: ${i.filename}` },
+            { type: "image" as const, data: i.data, mimeType: i.mimeType },
+          ]),
+        ]
+      };
+    })
+  );
+
+  server.tool(
+    "confluence.page_outline",
+    "Show the heading tree of a Confluence page with character offsets into its markdown, without the page text. Use it to read a very large page in parts with confluence.fetch_page's section or offset parameters.",
+    {
+      url: z.string().describe("Confluence page URL, tiny link, page ID, or SPACE:Title"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, site }) => {
+      const cfg = getCfg({ site, url });
+      const pageId = await resolvePageId(cfg, url);
+      const page = await getPage(cfg, pageId);
+      const markdown = await getPageMarkdown(cfg, page);
+      const headings = parseOutline(markdown);
+
+      const top = Math.min(...headings.map(h => h.level));
+      const lines = headings.map(h =>
+        `${"  ".repeat(h.level - top)}- ${h.title} (offset: ${h.offset}, ${h.end - h.offset} chars)`);
+      const text = lines.length > 0
+        ? `Outline of "${page.title}" (${markdown.length} chars):\n\n${lines.join("\n")}`
+        : `"${page.title}" has no headings (${markdown.length} chars).`;
+
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+
+  server.tool(
+    "confluence.get_ancestors",
+    "List the ancestor pages of a Confluence page, from the space root down to its direct parent. Shows where a page sits in its space (e.g. under an archive or deprecated section).",
+    {
+      url: z.string().describe("Confluence page URL, tiny link, page ID, or SPACE:Title"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, site }) => {
+      const cfg = getCfg({ site, url });
+      const pageId = await resolvePageId(cfg, url);
+      const location = await fetchAncestors(cfg, pageId);
+
+      const space = location.space?.key ? `Space: ${location.space.name ?? location.space.key} (${location.space.key})\n\n` : "";
+      const lines = location.ancestors.map((a, i) => `${"  ".repeat(i)}- ${a.title} (id: ${a.id})`);
+      const text = lines.length > 0
+        ? `${space}${lines.length} ancestor(s), top-level first:\n\n${lines.join("\n")}`
+        : `${space}Page ${pageId} is a top-level page; it has no ancestors.`;
+
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+
+  server.tool(
+    "confluence.list_children",
+    "List the direct child pages of a Confluence page without fetching their content. Useful for discovering page structure before fetching individual pages.",
+    {
+      url: z.string().describe("Confluence page URL, tiny link, page ID, or SPACE:Title"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, site }) => {
+      const cfg = getCfg({ site, url });
+      const pageId = await resolvePageId(cfg, url);
+      const children = await fetchChildPages(cfg, pageId);
+
+      const lines = children.map(c => `- ${c.title} (id: ${c.id})`);
+      const text = lines.length > 0
+        ? `Found ${lines.length} child page(s):\n\n${lines.join("\n")}`
+        : "No child pages found.";
+
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+
+  server.tool(
+    "confluence.list_spaces",
+    "List the Confluence spaces you can access, with their keys, names, types and homepage IDs. Use this to orient yourself before browsing a space with confluence.space_tree.",
+    {
+      type: z.enum(["global", "personal", "collaboration", "knowledge_base"]).optional().describe("Only list spaces of this type"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ type, site }) => {
+      const cfg = getCfg({ site });
+      const spaces = await fetchSpaces(cfg, { type });
+      spaces.sort((a, b) => a.key.localeCompare(b.key));
+
+      const lines = spaces.map(s => {
+        const details = [s.type, s.homepageId ? `homepage id: ${s.homepageId}` : undefined].filter(Boolean).join(", ");
+        return `- ${s.key} — ${s.name ?? s.key}${details ? ` (${details})` : ""}`;
+      });
+      const text = lines.length > 0
+        ? `Found ${lines.length} space(s):\n\n${lines.join("\n")}`
+        : "No spaces found.";
+
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+
+  server.tool(
+    "confluence.space_tree",
+    "Show the page hierarchy of a Confluence space as an indented outline with page IDs, without fetching page content.",
+    {
+      spaceKey: z.string().describe("Space key (e.g. 'ENG')"),
+      maxDepth: z.number().int().min(0).max(50).optional().describe("Levels below the top-level pages to include (default: all)"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ spaceKey, maxDepth, site }) => {
+      const cfg = getCfg({ site });
+      const space = await fetchSpaceByKey(cfg, spaceKey);
+      if (!space) {
+        return {
+          content: [{ type: "text" as const, text: `Space "${spaceKey}" not found or not accessible with the configured token.` }]
+        };
+      }
+
+      const nodes = await collectSpaceTree(cfg, space.id, maxDepth);
+      const lines = nodes.map(n =>
+        `${"  ".repeat(n.depth)}- ${n.title} (id: ${n.id})${n.id === space.homepageId ? " — homepage" : ""}`
+      );
+      const header = `# ${space.name ?? space.key} (${space.key})`;
+      const text = lines.length > 0
+        ? `${header}\n\n${nodes.length} page(s):\n\n${lines.join("\n")}`
+        : `${header}\n\nThis space has no pages you can see.`;
+
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+
+  server.tool(
+    "confluence.list_attachments",
+    "List the attachments of a Confluence page with their media types, sizes, versions and comments, optionally filtered by filename glob or media type.",
+    {
+      url: z.string().describe("Confluence page URL, tiny link, page ID, or SPACE:Title"),
+      pattern: z.string().optional().describe("Filename glob, e.g. '*.png' or 'diagram-*.{png,svg}'"),
+      mediaTypes: z.array(z.string()).optional().describe("Only list these media types, e.g. ['image/*', 'application/pdf']"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, pattern, mediaTypes, site }) => {
+      const cfg = getCfg({ site, url });
+      const pageId = await resolvePageId(cfg, url);
+      const attachments = filterAttachments(await getAttachments(cfg, pageId), { pattern, mediaTypes });
+
+      const lines = attachments.map(a => {
+        const details = [
+          a.mediaType,
+          a.fileSize !== undefined ? formatBytes(a.fileSize) : undefined,
+          a.version?.number !== undefined ? `v${a.version.number}` : undefined,
+          `id: ${a.id}`,
+        ].filter(Boolean).join(", ");
+        return `- ${a.title} (${details})${a.comment ? `\n  ${a.comment}` : ""}`;
+      });
+      const text = lines.length > 0
+        ? `Found ${lines.length} attachment(s):\n\n${lines.join("\n")}`
+        : "No attachments found.";
+
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+
+  if (localPath) {
+    server.tool(
+      "confluence.fetch_image",
+      "Download an image attachment from a Confluence page by filename and save it to a local directory. Returns the saved file path. A local file that differs from the last download is left alone unless overwrite is set.",
+      {
+        url: z.string().describe("Confluence page URL, tiny link, page ID, or SPACE:Title"),
+        filename: z.string().describe("Attachment filename (e.g. 'architecture.png')"),
+        destination: z.string().describe("Local directory path to save the image to"),
+        overwrite: z.boolean().default(false).describe("Replace a local file even if it was not downloaded by this tool or was edited since"),
+        site: siteParam
+      },
+      withErrorHandling(async ({ url, filename, destination, overwrite, site }) => {
+        const cfg = getCfg({ site, url });
+        const pageId = await resolvePageId(cfg, url);
+        const attachments = await getAttachments(cfg, pageId);
+
+        const match = attachments.find(a =>
+          a.title.toLowerCase() === filename.toLowerCase()
+        );
+
+        if (!match) {
+          const available = attachments.map(a => a.title).join(", ");
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Attachment "${filename}" not found. Available: ${available || "none"}`
+            }]
+          };
+        }
+
+        const saved = await downloadAttachmentFile(cfg, pageId, match, localPath(destination), { overwrite });
+        const path = await import("node:path");
+        const filePath = path.join(destination, saved.path);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: describeSavedAttachment(saved, filePath)
+          }]
+        };
+      })
     );
 
-    if (!match) {
-      const available = attachments.map(a => a.title).join(", ");
+    server.tool(
+      "confluence.download_attachments",
+      "Download all attachments of a Confluence page, or of its subtree, that match a filename glob and/or media types. Files already downloaded and unchanged in Confluence are skipped; locally edited files are left alone unless overwrite is set.",
+      {
+        url: z.string().describe("Confluence page URL (the subtree root when maxDepth > 0)"),
+        destination: z.string().describe("Local directory to save the attachments to"),
+        pattern: z.string().optional().describe("Filename glob, e.g. '*.png' or 'diagram-*.{png,svg}'"),
+        mediaTypes: z.array(z.string()).optional().describe("Only download these media types, e.g. ['image/*', 'application/pdf']"),
+        maxDepth: z.number().int().min(0).max(20).default(0).describe("Levels of descendant pages to include; each page gets its own subfolder when > 0"),
+        overwrite: z.boolean().default(false).describe("Replace local files even if they were not downloaded by this tool or were edited since"),
+        site: siteParam
+      },
+      withErrorHandling(async ({ url, destination, pattern, mediaTypes, maxDepth, overwrite, site }) => {
+        const cfg = getCfg({ site, url });
+        const pageId = await resolvePageId(cfg, url);
+        const root = await getPage(cfg, pageId);
+        const pages = await collectPageTree(cfg, root, maxDepth);
+
+        const saved = await downloadPageAttachments(cfg, pages, localPath(destination), { pattern, mediaTypes }, { overwrite });
+        if (saved.length === 0) {
+          return {
+            content: [{ type: "text" as const, text: `No matching attachments found on ${pages.length} page(s).` }]
+          };
+        }
+
+        const counts = new Map<string, number>();
+        for (const s of saved) counts.set(s.status, (counts.get(s.status) ?? 0) + 1);
+        const summary = [...counts].map(([status, n]) => `${n} ${status}`).join(", ");
+        const lines = saved.map(s => `- ${s.path}: ${s.status}${s.status === "kept" ? " (local file differs; pass overwrite to replace it)" : ""}`);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Attachments from ${pages.length} page(s) in ${destination}: ${summary}\n\n${lines.join("\n")}`
+          }]
+        };
+      })
+    );
+  }
+
+  server.tool(
+    "confluence.compare",
+    "Compare a local markdown file or string with a Confluence page and show the differences. With localDir, compares every markdown file in a folder against the page's subtree and reports per-page sync status instead.",
+    {
+      url: z.string().describe("Confluence page URL (the subtree root when localDir is used)"),
+      localContent: z.string().optional().describe("Local markdown content to compare against"),
+      localDir: z.string().optional().describe("Local folder of markdown files to compare against the page and its descendants"),
+      maxDepth: z.number().int().min(0).max(20).default(5).describe("Levels of descendants to include in folder mode"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, localContent, localDir, maxDepth, site }) => {
+      if ((localContent === undefined) === (localDir === undefined)) {
+        return {
+          content: [{ type: "text" as const, text: "Provide exactly one of localContent or localDir." }]
+        };
+      }
+
+      const cfg = getCfg({ site, url });
+
+      const pageId = await resolvePageId(cfg, url);
+
+      if (localDir !== undefined) {
+        if (!localPath) throw new Error("This server does not read local folders; pass localContent instead.");
+        const result = await compareFolder(cfg, pageId, localPath(localDir), maxDepth);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }]
+        };
+      }
+
+      const page = await getPage(cfg, pageId);
+
+      const confluenceMarkdown = await getPageMarkdown(cfg, page);
+
+      const diff = generateUnifiedDiff(
+        confluenceMarkdown.trim(),
+        localContent!.trim(),
+        `a/confluence/${page.title}`,
+        `b/local`
+      );
+
+      const stats = generateDiffStats(confluenceMarkdown.trim(), localContent!.trim());
+
+      const result = {
+        confluencePage: page.title,
+        pageUrl: page._links?.webui,
+        additions: stats.additions,
+        deletions: stats.deletions,
+        totalChanges: stats.changes,
+        diff: diff
+      };
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }]
+      };
+    })
+  );
+
+  server.tool(
+    "confluence.list_versions",
+    "List the version history of a Confluence page (number, author account ID, date, and version message), newest first.",
+    {
+      url: z.string().describe("Confluence page URL, tiny link, page ID, or SPACE:Title"),
+      limit: z.number().int().min(1).max(500).default(50).describe("Maximum number of versions to list"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, limit, site }) => {
+      const cfg = getCfg({ site, url });
+      const pageId = await resolvePageId(cfg, url);
+      const versions = await fetchPageVersions(cfg, pageId);
+
+      const lines = versions.slice(0, limit).map(v => {
+        const parts = [
+          `v${v.number}`,
+          v.createdAt,
+          v.authorId ? `by ${v.authorId}` : undefined,
+          v.minorEdit ? "(minor)" : undefined,
+        ].filter(Boolean).join(" ");
+        return `- ${parts}${v.message ? ` — ${v.message}` : ""}`;
+      });
+      const text = lines.length > 0
+        ? `Found ${versions.length} version(s):\n\n${lines.join("\n")}`
+        : "No versions found.";
+
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+
+  server.tool(
+    "confluence.diff_versions",
+    "Show a unified diff between two versions of a Confluence page. Use fromVersion for 'since version N' or sinceDate for 'since date'; toVersion defaults to the current version.",
+    {
+      url: z.string().describe("Confluence page URL, tiny link, page ID, or SPACE:Title"),
+      fromVersion: z.number().int().min(1).optional().describe("Older version number to diff from"),
+      sinceDate: z.string().optional().describe("ISO date/time; diffs from the version that was current at that moment"),
+      toVersion: z.number().int().min(1).optional().describe("Newer version number to diff to (defaults to current)"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, fromVersion, sinceDate, toVersion, site }) => {
+      if ((fromVersion === undefined) === (sinceDate === undefined)) {
+        return {
+          content: [{ type: "text" as const, text: "Provide exactly one of fromVersion or sinceDate." }]
+        };
+      }
+
+      const cfg = getCfg({ site, url });
+      const pageId = await resolvePageId(cfg, url);
+
+      let from = fromVersion;
+      if (sinceDate !== undefined) {
+        const date = new Date(sinceDate);
+        if (Number.isNaN(date.getTime())) {
+          return { content: [{ type: "text" as const, text: `Invalid sinceDate: ${sinceDate}` }] };
+        }
+        const versions = await fetchPageVersions(cfg, pageId);
+        const match = findVersionAt(versions, date);
+        if (!match) {
+          return {
+            content: [{ type: "text" as const, text: `Page did not exist yet at ${date.toISOString()}.` }]
+          };
+        }
+        from = match.number!;
+      }
+
+      const result = await diffPageVersions(cfg, pageId, from!, toVersion);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }]
+      };
+    })
+  );
+
+  server.tool(
+    "confluence.update_page",
+    "Replace the content of a Confluence page with local markdown. Refuses to write if the page has changed since expectedVersion, or if the write would remove macros, page links or mentions that markdown cannot represent (unless allowLoss is set). Use dryRun to preview the diff, what would be lost, and the current version without writing.",
+    {
+      url: z.string().describe("Confluence page URL, tiny link, page ID, or SPACE:Title"),
+      localContent: z.string().describe("Markdown to publish (front-matter from confluence.export_tree is honored and stripped)"),
+      expectedVersion: z.number().int().min(1).optional().describe("Version number the content was based on; defaults to the front-matter version"),
+      title: z.string().optional().describe("New page title (defaults to the current title)"),
+      message: z.string().optional().describe("Version message shown in page history"),
+      dryRun: z.boolean().default(false).describe("Return the diff instead of writing"),
+      allowLoss: z.boolean().default(false).describe("Write even though macros, page links or mentions listed by the dry run's lostContent would be removed"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, localContent, expectedVersion, title, message, dryRun, allowLoss, site }) => {
+      const cfg = getCfg({ site, url });
+      const pageId = await resolvePageId(cfg, url);
+      const { data, body } = parseFrontMatter(localContent);
+
+      if (data.id != null && String(data.id) !== pageId) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Refusing to update: local content belongs to page ${data.id}, but the URL points to page ${pageId}.`
+          }],
+          isError: true
+        };
+      }
+
+      const page = await fetchPageById(cfg, pageId);
+      const currentVersion = page.version?.number;
+      const basedOn = expectedVersion ?? (typeof data.version === "number" ? data.version : undefined);
+      const newTitle = title ?? page.title;
+      const markdown = stripTitleHeading(stripTitleHeading(body, page.title), newTitle).trim();
+      const storage = markdownToStorage(markdown);
+      // The markdown diff cannot show these: they read the same as the plain text they are replaced by
+      const lost = findLostElements(page.body?.storage?.value ?? "", storage);
+
+      if (dryRun) {
+        const confluenceMarkdown = (await getPageMarkdown(cfg, page)).trim();
+        const stats = generateDiffStats(confluenceMarkdown, markdown);
+        const result = {
+          confluencePage: page.title,
+          newTitle: newTitle !== page.title ? newTitle : undefined,
+          currentVersion,
+          expectedVersion: basedOn,
+          versionConflict: basedOn !== undefined && basedOn !== currentVersion,
+          additions: stats.additions,
+          deletions: stats.deletions,
+          totalChanges: stats.changes,
+          lostContent: lost.length > 0 ? lost : undefined,
+          diff: generateUnifiedDiff(confluenceMarkdown, markdown, `a/confluence/${page.title}`, `b/local`)
+        };
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }]
+        };
+      }
+
+      if (basedOn === undefined) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Refusing to update without expectedVersion. The page is currently at version ${currentVersion}; pass that once you have reviewed it.`
+          }],
+          isError: true
+        };
+      }
+
+      if (currentVersion === undefined || basedOn !== currentVersion) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Refusing to update: "${page.title}" is at version ${currentVersion}, but the local content is based on version ${basedOn}. Compare against the latest version and retry.`
+          }],
+          isError: true
+        };
+      }
+
+      if (lost.length > 0 && !allowLoss) {
+        const lines = lost.map(l => `- ${l.element}: ${l.current} now, ${l.afterWrite} after the update`);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Refusing to update: publishing this markdown would remove content from "${page.title}" that markdown cannot represent:\n\n${lines.join("\n")}\n\nEdit those parts in Confluence, or pass allowLoss: true to write anyway.`
+          }],
+          isError: true
+        };
+      }
+
+      const updated = await updatePage(cfg, pageId, {
+        title: newTitle,
+        storage,
+        version: currentVersion + 1,
+        message,
+      });
+
+      const link = pageWebUrl(updated) ?? pageWebUrl(page);
       return {
         content: [{
           type: "text" as const,
-          text: `Attachment "${filename}" not found. Available: ${available || "none"}`
+          text: `Updated "${updated.title}" to version ${updated.version?.number ?? currentVersion + 1}${link ? `: ${link}` : ""}`
         }]
       };
-    }
+    })
+  );
 
-    const { buffer } = await downloadAttachment(cfg, pageId, match.id);
+  server.tool(
+    "confluence.create_page",
+    "Create a new Confluence page from markdown, either under a parent page or at the top level of a space. Returns the new page's ID and URL.",
+    {
+      title: z.string().min(1).describe("Title of the new page"),
+      localContent: z.string().describe("Markdown body of the new page (front-matter is stripped)"),
+      parentUrl: z.string().optional().describe("URL of the page to create the new page under"),
+      spaceKey: z.string().optional().describe("Space key to create the page in at the top level (e.g. 'ENG')"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ title, localContent, parentUrl, spaceKey, site }) => {
+      if ((parentUrl === undefined) === (spaceKey === undefined)) {
+        return {
+          content: [{ type: "text" as const, text: "Provide exactly one of parentUrl or spaceKey." }]
+        };
+      }
 
-    // Ensure destination directory exists
-    const fs = await import("node:fs/promises");
-    const path = await import("node:path");
-    await fs.mkdir(destination, { recursive: true });
+      const cfg = getCfg({ site, url: parentUrl });
+      let spaceId: string | undefined;
+      let parentId: string | undefined;
+      let placement: string;
 
-    const filePath = path.join(destination, match.title);
-    await fs.writeFile(filePath, buffer);
+      if (parentUrl !== undefined) {
+        const parent = await fetchPageById(cfg, await resolvePageId(cfg, parentUrl));
+        spaceId = parent.spaceId;
+        parentId = parent.id;
+        placement = `under "${parent.title}"`;
+      } else {
+        const space = await fetchSpaceByKey(cfg, spaceKey!);
+        if (!space) {
+          return {
+            content: [{ type: "text" as const, text: `Space "${spaceKey}" not found or not accessible with the configured token.` }]
+          };
+        }
+        spaceId = space.id;
+        placement = `in space ${space.key}`;
+      }
 
-    return {
-      content: [{
-        type: "text" as const,
-        text: `Saved "${match.title}" (${buffer.length} bytes) to ${filePath}`
-      }]
-    };
-  }
-);
-
-server.tool(
-  "confluence.compare",
-  "Compare a local markdown file or string with a Confluence page and show the differences.",
-  {
-    url: z.string().describe("Confluence page URL"),
-    localContent: z.string().describe("Local markdown content to compare against")
-  },
-  async ({ url, localContent }) => {
-    const cfg = getCfg();
-    
-    const pageId = extractConfluencePageId(url);
-    const page = await fetchPageById(cfg, pageId);
-    
-    const storage = page.body?.storage?.value ?? "";
-    const confluenceMarkdown = storage ? storageToMarkdown(storage) : "";
-    
-    const diff = generateUnifiedDiff(
-      confluenceMarkdown.trim(),
-      localContent.trim(),
-      `a/confluence/${page.title}`,
-      `b/local`
+      if (!spaceId) {
+        return {
+          content: [{ type: "text" as const, text: "Could not determine the target space for the new page." }]
+        };
+      }
+
+      const existing = await findPagesByTitle(cfg, spaceId, title);
+      if (existing.length > 0) {
+        const clash = existing[0];
+        const link = pageWebUrl(clash);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `A page titled "${title}" already exists in this space (id: ${clash.id}${link ? `, ${link}` : ""}). ` +
+              "Confluence titles must be unique per space: choose a different title, or use confluence.update_page on the existing page."
+          }],
+          isError: true
+        };
+      }
+
+      const { body } = parseFrontMatter(localContent);
+      const markdown = stripTitleHeading(body, title).trim();
+      const created = await createPage(cfg, { spaceId, parentId, title, storage: markdownToStorage(markdown) });
+
+      const link = pageWebUrl(created);
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Created "${created.title}" ${placement} (id: ${created.id})${link ? `\n${link}` : ""}`
+        }]
+      };
+    })
+  );
+
+  server.tool(
+    "confluence.cache_clear",
+    "Clear the local page and attachment cache, either for one page, one site, or entirely.",
+    {
+      url: z.string().optional().describe("Confluence page URL to clear; omit to clear the whole cache (or the whole cache of `site`)"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ url, site }) => {
+      // When clients may bring credentials, each user's cached content sits next to the shared cache;
+      // a session only clears its own (the shared one if it has no credentials), never the whole directory
+      const perSession = credentials !== undefined || getClientCredentialsMode() !== "off";
+      const cfgs = url || site ? [getCfg({ site, url })] : perSession ? listSites().map(s => getCfg({ site: s.name })) : [undefined];
+      const cfg = cfgs.length === 1 ? cfgs[0] : undefined;
+      const pageId = cfg && url ? await resolvePageId(cfg, url) : undefined;
+      const removed = (await Promise.all(cfgs.map(c => clearCache(c, pageId)))).flat();
+
+      const scope = credentials ? "your cache" : perSession ? "the shared cache" : "the whole cache";
+      const text = removed.length > 0
+        ? `Cleared ${pageId ? `cache for page ${pageId}` : cfg ? `the cache for site ${cfg.name}` : scope}:\n\n${removed.map(d => `- ${d}`).join("\n")}`
+        : "Nothing cached.";
+
+      return { content: [{ type: "text" as const, text }] };
+    })
+  );
+
+  if (localPath) {
+    server.tool(
+      "confluence.export_tree",
+      "Export a Confluence page and its descendants to a local directory of markdown files with front-matter (id, title, version, parentId, webui). Writes a manifest mapping each file to its page ID.",
+      {
+        url: z.string().describe("Confluence URL of the root page to export"),
+        destination: z.string().describe("Local directory to write the markdown tree into"),
+        maxDepth: z.number().int().min(0).max(20).default(5).describe("How many levels of descendants to export (0 = root page only)"),
+        attachments: z.boolean().default(false).describe("Download attachments linked from each page, and the images it shows, next to its markdown file and point at the local copies"),
+        site: siteParam
+      },
+      withErrorHandling(async ({ url, destination, maxDepth, attachments, site }) => {
+        const cfg = getCfg({ site, url });
+        const pageId = await resolvePageId(cfg, url);
+        const manifest = await exportPageTree(cfg, pageId, localPath(destination), { maxDepth, attachments });
+
+        const lines = manifest.pages.map(p => `- ${p.path} (id: ${p.id})`);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Exported ${manifest.pages.length} page(s) to ${destination}\nManifest: ${MANIFEST_FILENAME}\n\n${lines.join("\n")}`
+          }]
+        };
+      })
     );
-    
-    const stats = generateDiffStats(confluenceMarkdown.trim(), localContent.trim());
-    
-    const result = {
-      confluencePage: page.title,
-      pageUrl: page._links?.webui,
-      additions: stats.additions,
-      deletions: stats.deletions,
-      totalChanges: stats.changes,
-      diff: diff
-    };
-    
-    return {
-      content: [{ type: "text", text: JSON.stringify(result, null, 2) }]
-    };
   }
-);
 
-async function validateAuthentication(): Promise<void> {
-  const cfg: ConfluenceClientConfig = {
-    token: getEnv("CONFLUENCE_TOKEN")!,
-    email: getEnv("CONFLUENCE_EMAIL")!,
-    cloudId: getEnv("CONFLUENCE_CLOUD_ID"),
-    baseUrl: getEnv("CONFLUENCE_BASE_URL"),
-  };
+  server.tool(
+    "confluence.search",
+    "Search Confluence with CQL to find pages by text, space, label, or contributor. Returns titles, IDs, space keys, last-modified info, excerpts, and page URLs that can be passed to confluence.fetch_page.",
+    {
+      query: z.string().optional().describe("Free text to search for"),
+      space: z.string().optional().describe("Restrict to a space key (e.g. 'ENG')"),
+      label: z.string().optional().describe("Restrict to pages with this label"),
+      contributor: z.string().optional().describe("Restrict to pages edited by this account ID, or 'currentUser()'"),
+      type: z.enum(["page", "blogpost", "attachment"]).default("page").describe("Content type to search"),
+      cql: z.string().optional().describe("Raw CQL query; overrides all other filters"),
+      limit: z.number().int().min(1).max(100).default(25).describe("Maximum results to return"),
+      cursor: z.string().optional().describe("Cursor from a previous search to fetch the next page of results"),
+      site: siteParam
+    },
+    withErrorHandling(async ({ query, space, label, contributor, type, cql, limit, cursor, site }) => {
+      if (!cql && !query && !space && !label && !contributor) {
+        return {
+          content: [{ type: "text" as const, text: "Provide a query, space, label, contributor, or raw cql to search." }]
+        };
+      }
 
-  const base = buildBase(cfg);
-  const url = new URL(`${base}/wiki/api/v2/pages`);
-  url.searchParams.set("limit", "1");
+      const cfg = getCfg({ site });
+      const expression = cql ?? buildCql({ text: query, space, label, contributor, type });
+      const { results, nextCursor, base, totalSize } = await searchContent(cfg, expression, { limit, cursor });
 
-  try {
-    const res = await fetch(url.toString(), {
-      method: "GET",
-      headers: {
-        ...buildAuthHeaders(cfg),
-        Accept: "application/json",
-      },
-    });
+      if (results.length === 0) {
+        return { content: [{ type: "text" as const, text: `No results for: ${expression}` }] };
+      }
 
-    if (res.status === 401) {
-      console.error("\n❌ Authentication failed: Invalid token or email.");
-      console.error("  Check your CONFLUENCE_TOKEN and CONFLUENCE_EMAIL.\n");
-      process.exit(1);
+      const lines = results.map((r, i) => {
+        const c = r.content;
+        const webui = c?._links?.webui ?? r.url;
+        const pageUrl = webui && base ? `${base}${webui}` : webui;
+        const modified = c?.version?.when ?? r.lastModified;
+        const by = c?.version?.by?.displayName;
+        const excerpt = (r.excerpt ?? "")
+          .replace(/@@@(end)?hl@@@/g, "")
+          .replace(/\s+/g, " ")
+          .trim()
+          .slice(0, 300);
+
+        const meta = [
+          `id: ${c?.id ?? "?"}`,
+          c?.space?.key ? `space: ${c.space.key}` : undefined,
+          modified ? `modified: ${modified}${by ? ` by ${by}` : ""}` : undefined,
+        ].filter(Boolean).join(" · ");
+
+        return [
+          `${i + 1}. ${c?.title ?? r.title ?? "(untitled)"}`,
+          `   ${meta}`,
+          pageUrl ? `   url: ${pageUrl}` : undefined,
+          excerpt ? `   > ${excerpt}` : undefined,
+        ].filter(Boolean).join("\n");
+      });
+
+      const header = `Found ${totalSize ?? results.length} result(s) for: ${expression}`;
+      const footer = nextCursor ? `\n\nMore results available. Next cursor: ${nextCursor}` : "";
+
+      return {
+        content: [{ type: "text" as const, text: `${header}\n\n${lines.join("\n\n")}${footer}` }]
+      };
+    })
+  );
+}
+
+// --- Resources ---
+
+/**
+ * Resource paths under confluence://. Each is also available per site as
+ * confluence://site/{site}/<path>; the short form uses the default site.
+ */
+const RESOURCE_PATHS = {
+  page: "page/{id}",
+  children: "page/{id}/children",
+  space: "space/{key}",
+} as const;
+
+type ResourceKind = keyof typeof RESOURCE_PATHS;
+
+const resourceTemplates = (Object.keys(RESOURCE_PATHS) as ResourceKind[]).flatMap(kind => [
+  { kind, template: new UriTemplate(`confluence://${RESOURCE_PATHS[kind]}`) },
+  { kind, template: new UriTemplate(`confluence://site/{site}/${RESOURCE_PATHS[kind]}`) },
+]);
+
+/** URI of a resource on a site; qualified with the site name only when several sites are configured */
+function resourceUri(site: SiteProfile, path: string): string {
+  return listSites().length > 1 ? `confluence://site/${encodeURIComponent(site.name)}/${path}` : `confluence://${path}`;
+}
+
+function variable(variables: Variables, name: string): string | undefined {
+  const value = variables[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first !== undefined ? decodeURIComponent(first) : undefined;
+}
+
+/**
+ * Work out which resource a URI names, and on which site. Page IDs must be
+ * numeric: they end up in API paths and cache directories.
+ */
+function matchResource(uri: string, credentials?: SessionCredentials): { kind: ResourceKind; cfg: SiteProfile; id: string } | undefined {
+  for (const { kind, template } of resourceTemplates) {
+    const variables = template.match(uri);
+    if (!variables) continue;
+    const id = variable(variables, kind === "space" ? "key" : "id");
+    if (!id || (kind !== "space" && !/^\d+$/.test(id))) return undefined;
+    return { kind, cfg: siteFor({ site: variable(variables, "site") }, credentials), id };
+  }
+  return undefined;
+}
+
+async function readResource(uri: string, credentials?: SessionCredentials): Promise<ReadResourceResult> {
+  const target = matchResource(uri, credentials);
+  if (!target) throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  const { kind, cfg, id } = target;
+  const markdown = (text: string) => ({ contents: [{ uri, mimeType: "text/markdown", text }] });
+
+  if (kind === "page") {
+    const page = await getPage(cfg, id);
+    return markdown(`# ${page.title}\n\n${await getPageMarkdown(cfg, page)}`);
+  }
+
+  if (kind === "children") {
+    const children = await fetchChildPages(cfg, id);
+    const lines = children.map(c => `- [${c.title}](${resourceUri(cfg, `page/${c.id}`)})`);
+    return markdown(lines.length > 0 ? lines.join("\n") : "No child pages.");
+  }
+
+  const space = await fetchSpaceByKey(cfg, id);
+  if (!space) throw new McpError(ErrorCode.InvalidParams, `Space "${id}" not found or not accessible.`);
+  const nodes = await collectSpaceTree(cfg, space.id);
+  const lines = nodes.map(n =>
+    `${"  ".repeat(n.depth)}- [${n.title}](${resourceUri(cfg, `page/${n.id}`)})${n.id === space.homepageId ? " — homepage" : ""}`
+  );
+  return markdown(`# ${space.name ?? space.key} (${space.key})\n\n${lines.join("\n") || "This space has no pages you can see."}`);
+}
+
+/**
+ * What a subscription compares between polls: a page's version number, the
+ * IDs and titles of a page's children, or a space's page hierarchy.
+ */
+async function resourceFingerprint(uri: string, credentials?: SessionCredentials): Promise<string | undefined> {
+  const target = matchResource(uri, credentials);
+  if (!target) return undefined;
+  const { kind, cfg, id } = target;
+
+  if (kind === "page") {
+    const version = await fetchPageVersion(cfg, id);
+    return version !== undefined ? String(version) : undefined;
+  }
+  if (kind === "children") {
+    return (await fetchChildPages(cfg, id)).map(c => `${c.id} ${c.title}`).join("\n");
+  }
+  const space = await fetchSpaceByKey(cfg, id);
+  if (!space) return undefined;
+  return (await collectSpaceTree(cfg, space.id)).map(n => `${n.depth} ${n.id} ${n.title}`).join("\n");
+}
+
+/** Pages listed as resources: CONFLUENCE_PINNED_PAGES, comma-separated page references */
+async function listPinnedPages(credentials?: SessionCredentials): Promise<ListResourcesResult> {
+  const refs = (getEnv("CONFLUENCE_PINNED_PAGES") ?? "").split(",").map(r => r.trim()).filter(Boolean);
+  const resources: ListResourcesResult["resources"] = [];
+  for (const ref of refs) {
+    try {
+      const cfg = siteFor({ url: ref }, credentials);
+      const page = await getPage(cfg, await resolvePageId(cfg, ref));
+      resources.push({ uri: resourceUri(cfg, `page/${page.id}`), name: page.title, mimeType: "text/markdown" });
+    } catch (err) {
+      console.error(`Skipping pinned page "${ref}": ${(err as Error).message}`);
     }
+  }
+  return { resources };
+}
 
-    if (res.status === 403) {
-      console.error("\n❌ Authentication failed: Token lacks required permissions.");
-      console.error("  Ensure your scoped token has read access to Confluence.\n");
-      process.exit(1);
+/** Every space on every configured site */
+async function listSpaceResources(credentials?: SessionCredentials): Promise<ListResourcesResult> {
+  const resources: ListResourcesResult["resources"] = [];
+  for (const site of listSites().map(s => siteFor({ site: s.name }, credentials))) {
+    try {
+      for (const space of await fetchSpaces(site)) {
+        resources.push({ uri: resourceUri(site, `space/${space.key}`), name: `${space.key}: ${space.name ?? space.key}`, mimeType: "text/markdown" });
+      }
+    } catch (err) {
+      console.error(`Skipping spaces of site "${site.name}": ${(err as Error).message}`);
     }
+  }
+  return { resources };
+}
 
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      console.error(`\n❌ Confluence API error (${res.status}): ${text.slice(0, 300)}\n`);
-      process.exit(1);
+const RESOURCE_METADATA: Record<ResourceKind, { description: string; list?: (credentials?: SessionCredentials) => Promise<ListResourcesResult> }> = {
+  page: { description: "A Confluence page as markdown", list: listPinnedPages },
+  children: { description: "The direct child pages of a Confluence page, as links to their page resources" },
+  space: { description: "The page hierarchy of a Confluence space, as links to its page resources", list: listSpaceResources },
+};
+
+/** Register the resource templates and subscription handling on a server instance */
+function registerResources(server: McpServer, credentials?: SessionCredentials): void {
+  for (const kind of Object.keys(RESOURCE_PATHS) as ResourceKind[]) {
+    const { description, list } = RESOURCE_METADATA[kind];
+    server.registerResource(
+      `confluence-${kind}`,
+      new ResourceTemplate(`confluence://${RESOURCE_PATHS[kind]}`, { list: list && (() => list(credentials)) }),
+      { description, mimeType: "text/markdown" },
+      uri => readResource(uri.href, credentials)
+    );
+    server.registerResource(
+      `confluence-${kind}-by-site`,
+      new ResourceTemplate(`confluence://site/{site}/${RESOURCE_PATHS[kind]}`, { list: undefined }),
+      { description: `${description}, on a named site`, mimeType: "text/markdown" },
+      uri => readResource(uri.href, credentials)
+    );
+  }
+
+  const resourceWatcher = createResourceWatcher({
+    intervalMs: (getIntEnv("CONFLUENCE_POLL_INTERVAL") ?? 60) * 1000,
+    fingerprint: uri => resourceFingerprint(uri, credentials),
+    onChange: uri => server.server.sendResourceUpdated({ uri }),
+  });
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    if (!matchResource(request.params.uri, credentials)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
     }
-  } catch (err) {
-    console.error(`\n❌ Could not reach Confluence API: ${(err as Error).message}`);
-    console.error("  Check your network connection and CONFLUENCE_CLOUD_ID / CONFLUENCE_BASE_URL.\n");
+    await resourceWatcher.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    resourceWatcher.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Subscriptions belong to one client connection
+  server.server.onclose = () => resourceWatcher.stop();
+}
+
+/**
+ * A server with every tool and resource registered. Each HTTP session gets
+ * its own, so subscriptions and other protocol state are never shared, and
+ * with `credentials` every Confluence request it makes uses them.
+ */
+function createServer(credentials?: SessionCredentials, localPath?: LocalPaths): McpServer {
+  const server = new McpServer({
+    name: "confluence-reader-mcp",
+    version: "0.2.3"
+  });
+  registerTools(server, credentials, localPath);
+  registerResources(server, credentials);
+  return server;
+}
+
+/**
+ * Verify every configured site's credentials, reporting each site's status.
+ * Exits only if no site is usable; tools aimed at a failing site will report
+ * the error when called.
+ */
+async function validateAuthentication(): Promise<void> {
+  const sites = listSites();
+  const multiple = sites.length > 1;
+  let usable = 0;
+
+  for (const cfg of sites) {
+    const label = multiple ? ` [${cfg.name}]` : "";
+    try {
+      if (cfg.oauth && !cfg.cloudId) cfg.cloudId = await discoverCloudId(cfg.oauth, cfg.baseUrl);
+      await verifyAccess(cfg);
+      usable++;
+      if (multiple) console.error(`✅ Site ${cfg.name}: connected`);
+    } catch (err) {
+      if (err instanceof ConfluenceUnauthorizedError) {
+        console.error(cfg.deployment === "server"
+          ? `\n❌ Authentication failed${label}: Invalid personal access token.`
+          : `\n❌ Authentication failed${label}: Invalid token or email.`);
+      } else if (err instanceof ConfluenceForbiddenError) {
+        console.error(`\n❌ Authentication failed${label}: Token lacks required permissions.`);
+      } else if (err instanceof ConfluenceApiError) {
+        console.error(`\n❌${label} ${err.message}`);
+      } else if (err instanceof Error) {
+        console.error(`\n❌${label} ${err.message}\n`);
+        continue;
+      } else {
+        throw err;
+      }
+      console.error(`  ${err.hint}\n`);
+    }
+  }
+
+  if (usable === 0) process.exit(1);
+}
+
+/**
+ * `confluence-reader-mcp login [site]`: sign in to an OAuth site in the browser
+ * and store its tokens, then exit.
+ */
+async function runLogin(siteName?: string): Promise<void> {
+  const site = selectSite({ site: siteName });
+  if (!site.oauth) {
+    console.error(`\n❌ Site ${site.name} does not use OAuth. Set CONFLUENCE_OAUTH_CLIENT_ID (or "oauth" in its profile) first.\n`);
     process.exit(1);
   }
+
+  await login(site.oauth, url => {
+    console.error(`\nOpen this URL in your browser to sign in to Confluence${siteName ? ` (${site.name})` : ""}:\n\n  ${url}\n`);
+    console.error("Waiting for the redirect...");
+  });
+  const cloudId = site.cloudId ?? await discoverCloudId(site.oauth, site.baseUrl);
+  console.error(`\n✅ Signed in (cloud ID ${cloudId}). Tokens saved to ${site.oauth.tokenFile}\n`);
+}
+
+/**
+ * Serve over Streamable HTTP so one instance can be shared, e.g. by a team
+ * inside a private network.
+ */
+async function serveHttp(): Promise<void> {
+  const host = getEnv("CONFLUENCE_MCP_HOST") ?? "127.0.0.1";
+  const port = getIntEnv("CONFLUENCE_MCP_PORT") ?? 3000;
+  const authToken = getEnv("CONFLUENCE_MCP_AUTH_TOKEN");
+  const allowedHosts = getEnv("CONFLUENCE_MCP_ALLOWED_HOSTS")?.split(",").map(h => h.trim()).filter(Boolean);
+  const clientCredentials = getClientCredentialsMode() ?? "off";
+  const sessionTimeout = getIntEnv("CONFLUENCE_MCP_SESSION_TIMEOUT");
+  // Clients are remote: they only get to local files inside the work directory, if there is one,
+  // and users with their own credentials each get a subdirectory of it
+  const workdir = getEnv("CONFLUENCE_MCP_WORKDIR");
+  const localPathFor = (credentials?: SessionCredentials): LocalPaths | undefined => {
+    if (!workdir) return undefined;
+    const root = credentials ? resolveInside(workdir, credentialPartition(credentials)) : workdir;
+    return p => resolveInside(root, p);
+  };
+
+  const { close } = await startHttpServer({
+    host, port, authToken, allowedHosts, clientCredentials,
+    idleTimeoutMs: sessionTimeout !== undefined ? sessionTimeout * 1000 : undefined,
+    createServer: credentials => createServer(credentials, localPathFor(credentials)),
+  });
+  console.error(`✅ Serving MCP over Streamable HTTP at http://${host}:${port}${MCP_PATH}`);
+  if (clientCredentials === "required") {
+    console.error("🔑 Clients must send their own Confluence credentials (X-Confluence-Token)");
+  } else if (!authToken) {
+    console.error("⚠️  CONFLUENCE_MCP_AUTH_TOKEN is not set: anyone who can reach this address can use the configured Confluence credentials.");
+  }
+
+  const shutdown = () => {
+    close().finally(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
 }
 
 async function main() {
   // Validate environment variables before starting the server
   validateEnvironment();
+  configureSitesFromEnv();
+  configureRequests();
+  configureCacheFromEnv();
+
+  if (process.argv[2] === "login") {
+    await runLogin(process.argv[3]);
+    return;
+  }
 
-  // Verify credentials actually work against Confluence
-  await validateAuthentication();
+  // Verify credentials actually work against Confluence (skipped when serving from cache only,
+  // or when every client brings its own)
+  if (!getCacheSettings().offline && getClientCredentialsMode() !== "required") {
+    await validateAuthentication();
+  }
   
+  if (getEnv("CONFLUENCE_MCP_TRANSPORT")?.toLowerCase() === "http") {
+    await serveHttp();
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer(undefined, p => p).connect(transport);
 }
 
 main().catch((err) => {
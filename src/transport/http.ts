@@ -0,0 +1,259 @@
+import * as crypto from "node:crypto";
+import * as http from "node:http";
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import type { SessionCredentials } from "../confluence/sites.js";
+
+/**
+ * Serve MCP over Streamable HTTP (responses and server notifications stream
+ * as SSE). Every client session gets its own server instance and transport;
+ * sessions end when the client sends DELETE, the transport closes, or no
+ * request has been open on them for the idle timeout.
+ *
+ * Clients may send their own Confluence credentials in the X-Confluence-Token
+ * and X-Confluence-Email headers. A session is bound to the credentials it was
+ * started with: every later request must carry the same ones.
+ *
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/basic/transports#streamable-http
+ */
+
+export const MCP_PATH = "/mcp";
+
+/** Largest JSON-RPC request body accepted */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Whether clients bring their own Confluence credentials: never ("off"), when
+ * they choose to ("optional", others use the server's), or always ("required").
+ */
+export type ClientCredentialsMode = "off" | "optional" | "required";
+
+export type HttpServerOptions = {
+  host: string;
+  port: number;
+  authToken?: string;       // Required as "Authorization: Bearer <token>" on every request when set
+  allowedHosts?: string[];  // Reject other Host headers (DNS rebinding protection); defaults to the loopback names when listening on loopback
+  clientCredentials?: ClientCredentialsMode;  // Defaults to "off"
+  idleTimeoutMs?: number;   // Close sessions with no open request for this long; defaults to 30 minutes
+  createServer: (credentials?: SessionCredentials) => McpServer;
+};
+
+type Session = {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  credentialKey: string;  // Hash of the session's credentials; "" when it uses the server's
+  openRequests: number;   // Including a client's long-lived GET stream for notifications
+  idleTimer?: NodeJS.Timeout;
+};
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+/**
+ * Host headers to accept. On a loopback address only the loopback names are
+ * valid, so a web page that rebinds its own domain to 127.0.0.1 cannot reach
+ * the server; on other addresses the names are unknown unless configured.
+ */
+function hostsToAllow(host: string, port: number, allowedHosts?: string[]): string[] | undefined {
+  if (allowedHosts?.length) return allowedHosts;
+  if (!LOOPBACK_HOSTS.includes(host)) return undefined;
+  return LOOPBACK_HOSTS.map(h => (h.includes(":") ? `[${h}]:${port}` : `${h}:${port}`));
+}
+
+/** Compare secrets without leaking their contents through timing */
+function tokensMatch(given: string, expected: string): boolean {
+  const a = crypto.createHash("sha256").update(given).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+function isAuthorized(req: http.IncomingMessage, authToken: string): boolean {
+  const m = (req.headers.authorization ?? "").match(/^Bearer\s+(.+)$/i);
+  return !!m && tokensMatch(m[1].trim(), authToken);
+}
+
+function header(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+/** Confluence credentials sent by the client; undefined when it sent none */
+function credentialsFromHeaders(req: http.IncomingMessage): SessionCredentials | undefined {
+  const token = header(req, "x-confluence-token");
+  const email = header(req, "x-confluence-email");
+  if (!token && !email) return undefined;
+  return { token: token ?? "", email };
+}
+
+/** Identifies a set of credentials without keeping them in the session table */
+function credentialKey(credentials: SessionCredentials | undefined): string {
+  if (!credentials) return "";
+  return crypto.createHash("sha256").update(`${credentials.email ?? ""}\n${credentials.token}`).digest("hex");
+}
+
+/** Reply with a JSON-RPC error outside of any session */
+function sendError(res: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error(`Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Start the HTTP server.
+ *
+ * @returns The listening server and a function that closes every session and stops listening
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<{ httpServer: http.Server; close: () => Promise<void> }> {
+  const sessions = new Map<string, Session>();
+
+  const mode = options.clientCredentials ?? "off";
+  const allowedHosts = hostsToAllow(options.host, options.port, options.allowedHosts);
+
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+
+  async function openSession(credentials: SessionCredentials | undefined): Promise<Session> {
+    const server = options.createServer(credentials);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      enableDnsRebindingProtection: !!allowedHosts,
+      allowedHosts,
+      onsessioninitialized: id => {
+        sessions.set(id, session);
+      },
+    });
+    const session: Session = { transport, server, credentialKey: credentialKey(credentials), openRequests: 0 };
+    transport.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    return session;
+  }
+
+  /**
+   * Pass a request to a session's transport. Once the session has no open
+   * request, it is closed after the idle timeout (many clients never send
+   * DELETE), which also stops its resource subscriptions.
+   */
+  async function serve(session: Session, req: http.IncomingMessage, res: http.ServerResponse, body?: unknown): Promise<void> {
+    session.openRequests++;
+    clearTimeout(session.idleTimer);
+    res.once("close", () => {
+      if (--session.openRequests > 0) return;
+      session.idleTimer = setTimeout(() => void session.server.close().catch(() => undefined), idleTimeoutMs);
+      session.idleTimer.unref();
+    });
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== MCP_PATH) {
+      sendError(res, 404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+    // Checked here as well as by the transport, so no session is created for a rejected host
+    if (allowedHosts && !allowedHosts.includes(req.headers.host ?? "")) {
+      sendError(res, 403, `Invalid Host header: ${req.headers.host ?? "(none)"}`);
+      return;
+    }
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      sendError(res, 401, "Unauthorized", { "WWW-Authenticate": 'Bearer realm="confluence-reader-mcp"' });
+      return;
+    }
+
+    const credentials = credentialsFromHeaders(req);
+    if (credentials && mode === "off") {
+      sendError(res, 400, "This server does not accept client Confluence credentials; remove the X-Confluence-Token and X-Confluence-Email headers");
+      return;
+    }
+    if (credentials && !credentials.token) {
+      sendError(res, 400, "X-Confluence-Email was sent without X-Confluence-Token");
+      return;
+    }
+    if (!credentials && mode === "required") {
+      sendError(res, 401, "Confluence credentials are required: send your token in X-Confluence-Token (and your Atlassian account email in X-Confluence-Email for Cloud API tokens)");
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    if (session && !tokensMatch(credentialKey(credentials), session.credentialKey)) {
+      sendError(res, 403, "This session was started with different Confluence credentials");
+      return;
+    }
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        sendError(res, 400, `Invalid request body: ${(err as Error).message}`);
+        return;
+      }
+
+      if (session) {
+        await serve(session, req, res, body);
+      } else if (sessionId === undefined && isInitializeRequest(body)) {
+        await serve(await openSession(credentials), req, res, body);
+      } else {
+        sendError(res, sessionId === undefined ? 400 : 404, sessionId === undefined
+          ? "No session; start one with an initialize request"
+          : "Unknown or expired session; initialize a new one");
+      }
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!session) {
+        sendError(res, sessionId === undefined ? 400 : 404, "Unknown or missing session ID");
+        return;
+      }
+      await serve(session, req, res);
+      return;
+    }
+
+    sendError(res, 405, "Method not allowed", { Allow: "GET, POST, DELETE" });
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch(err => {
+      console.error("HTTP request failed:", (err as Error).message);
+      if (!res.headersSent) sendError(res, 500, "Internal server error");
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const close = async () => {
+    for (const { server, idleTimer } of [...sessions.values()]) {
+      clearTimeout(idleTimer);
+      await server.close().catch(() => undefined);
+    }
+    sessions.clear();
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+  };
+
+  return { httpServer, close };
+}
@@ -0,0 +1,84 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { request, configureRequestPolicy } from "../src/confluence/http.js";
+import { ConfluenceServerError, ConfluenceTimeoutError } from "../src/confluence/errors.js";
+
+/** A local stand-in for Confluence; each test sets how it answers */
+let respond: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+let hits: string[] = [];
+let server: http.Server;
+let base: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    hits.push(req.url ?? "");
+    respond(req, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+beforeEach(() => {
+  hits = [];
+  configureRequestPolicy({ maxRetries: 0, baseDelayMs: 1, timeoutMs: 1000 });
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test("retries a 503 and returns the next successful response", async () => {
+  configureRequestPolicy({ maxRetries: 2, baseDelayMs: 1 });
+  respond = (_req, res) => {
+    res.writeHead(hits.length === 1 ? 503 : 200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ok: true }));
+  };
+
+  const res = await request(`${base}/retry`, { method: "GET" });
+  assert.deepEqual(await res.json(), { ok: true });
+  assert.equal(hits.length, 2);
+});
+
+test("throws a typed error once retries are exhausted", async () => {
+  respond = (_req, res) => {
+    res.writeHead(500);
+    res.end("boom");
+  };
+
+  await assert.rejects(request(`${base}/fail`, { method: "GET" }), ConfluenceServerError);
+});
+
+test("a body that stops arriving times out", async () => {
+  configureRequestPolicy({ maxRetries: 0, timeoutMs: 100 });
+  respond = (_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.write("partial");
+    // Never ends: the client must give up on its own
+  };
+
+  const res = await request(`${base}/stall`, { method: "GET" });
+  await assert.rejects(res.text(), ConfluenceTimeoutError);
+});
+
+test("a response holds its concurrency slot until its body is read", async () => {
+  configureRequestPolicy({ maxRetries: 0, maxConcurrent: 1 });
+  respond = (_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.end("body");
+  };
+
+  const first = await request(`${base}/first`, { method: "GET" });
+  const second = request(`${base}/second`, { method: "GET" });
+  await sleep(100);
+  assert.deepEqual(hits, ["/first"]);
+
+  assert.equal(await first.text(), "body");
+  assert.equal(await (await second).text(), "body");
+  assert.deepEqual(hits, ["/first", "/second"]);
+});
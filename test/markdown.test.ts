@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { markdownToStorage } from "../src/confluence/markdown.js";
+import { storageToMarkdown } from "../src/confluence/transform.js";
+
+/** A page using each construct the converters map in both directions */
+const PAGE = [
+  `<h1>Overview</h1>`,
+  `<p>Use List&lt;String&gt; for a &lt;placeholder&gt; &amp; more.</p>`,
+  `<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">ts</ac:parameter><ac:plain-text-body><![CDATA[const xs: Array<string> = [];]]></ac:plain-text-body></ac:structured-macro>`,
+  `<ac:structured-macro ac:name="info"><ac:rich-text-body><p>Heads up</p></ac:rich-text-body></ac:structured-macro>`,
+  `<ac:task-list><ac:task><ac:task-id>1</ac:task-id><ac:task-status>complete</ac:task-status><ac:task-body>Done</ac:task-body></ac:task></ac:task-list>`,
+  `<table><tbody><tr><th>Name</th><th>Value</th></tr><tr><td>a</td><td>1</td></tr></tbody></table>`,
+  `<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">More &lt;details&gt;</ac:parameter><ac:rich-text-body><p>Hidden<br/>text</p></ac:rich-text-body></ac:structured-macro>`,
+  `<p>Status <ac:structured-macro ac:name="status"><ac:parameter ac:name="colour">Red</ac:parameter><ac:parameter ac:name="title">DEPRECATED</ac:parameter></ac:structured-macro></p>`,
+].join("");
+
+test("storage → markdown → storage → markdown is stable", () => {
+  const markdown = storageToMarkdown(PAGE);
+  const storage = markdownToStorage(markdown);
+  assert.equal(storageToMarkdown(storage), markdown);
+});
+
+test("escaped angle brackets in prose stay escaped", () => {
+  const storage = markdownToStorage(storageToMarkdown(`<p>Use List&lt;String&gt; here</p>`));
+  assert.match(storage, /List&lt;String>/);
+  assert.doesNotMatch(storage, /<String>/);
+});
+
+test("raw HTML publishes as text, except the forms the converter writes", () => {
+  assert.equal(markdownToStorage("<script>alert(1)</script>"), "<p>&lt;script>alert(1)&lt;/script></p>");
+  assert.match(markdownToStorage(`Jump <a id="top"></a> here`), /<ac:structured-macro ac:name="anchor">/);
+});
+
+test("image references that are not valid percent-encoding are kept as written", () => {
+  assert.match(markdownToStorage("![a](foo%ZZ.png)"), /ri:filename="foo%ZZ.png"/);
+  assert.match(markdownToStorage("![a](my%20file.png)"), /ri:filename="my file.png"/);
+});